@@ -0,0 +1,454 @@
+/**
+ * Bezier
+ *
+ * @description Bézier-görbék, Catmull-Rom spline és SVG útvonalak mintavételezése
+ * @requires geometry
+ */
+
+import { Coord, Rect, addCoords, distance, getPolygonBounds, lerpCoords, normalize, scaleCoord, subtractCoords } from './geometry';
+
+/**
+ * Bézier-görbe vezérlőpontjai
+ * @description
+ *  2 pont: szakasz, 3 pont: másodfokú, 4 pont: harmadfokú görbe
+ */
+export type Bezier = Coord[];
+
+/**
+ * Gauss–Legendre kvadratúra alappontjai és súlyai (5 pont, [-1, 1] intervallum)
+ * @type {Array}
+ */
+const gaussLegendre: [number, number][] = [
+    [0, 0.5688888888888889],
+    [-0.5384693101056831, 0.4786286704993665],
+    [0.5384693101056831, 0.4786286704993665],
+    [-0.9061798459386640, 0.2369268850561891],
+    [0.9061798459386640, 0.2369268850561891]
+];
+
+/**
+ * Görbe pontja
+ * @param {Bezier} curve - vezérlőpontok
+ * @param {number} t - paraméter (0: kezdőpont, 1: végpont)
+ * @return {Coord}
+ */
+export const getBezierPoint = function(curve: Bezier, t: number): Coord {
+    let points = curve;
+    while (points.length > 1) {
+        points = points.slice(1).map((point, i) => lerpCoords(points[i], point, t));
+    }
+    return { ...points[0] };
+};
+
+/**
+ * Görbe deriváltja (sebességvektora)
+ * @param {Bezier} curve - vezérlőpontok
+ * @param {number} t - paraméter
+ * @return {Coord}
+ */
+export const getBezierDerivative = function(curve: Bezier, t: number): Coord {
+    if (curve.length < 2) {
+        return { x: 0, y: 0 };
+    }
+    const degree = curve.length - 1;
+    const hodograph = curve.slice(1).map((point, i) => scaleCoord(subtractCoords(point, curve[i]), degree));
+    return getBezierPoint(hodograph, t);
+};
+
+/**
+ * Görbe érintőjének iránya
+ * @param {Bezier} curve - vezérlőpontok
+ * @param {number} t - paraméter
+ * @return {Coord} egységvektor
+ * @description
+ *  Ha a derivált nulla (pl. a végponttal egybeeső vezérlőpont), a közeli paraméterértékek irányát használja.
+ */
+export const getBezierTangent = function(curve: Bezier, t: number): Coord {
+    const derivative = getBezierDerivative(curve, t);
+    if (derivative.x || derivative.y) {
+        return normalize(derivative);
+    }
+    const near = t < 0.5 ? t + 1e-6 : t - 1e-6;
+    const direction = normalize(getBezierDerivative(curve, near));
+    if (direction.x || direction.y) {
+        return direction;
+    }
+    return normalize(subtractCoords(curve[curve.length - 1], curve[0]));
+};
+
+/**
+ * Görbe kettévágása (de Casteljau)
+ * @param {Bezier} curve - vezérlőpontok
+ * @param {number} t - a vágás helye
+ * @return {array<Bezier>} [a 0..t rész, a t..1 rész]
+ */
+export const splitBezier = function(curve: Bezier, t: number): [Bezier, Bezier] {
+    const left: Coord[] = [];
+    const right: Coord[] = [];
+    let points = curve;
+    while (points.length) {
+        left.push(points[0]);
+        right.unshift(points[points.length - 1]);
+        points = points.slice(1).map((point, i) => lerpCoords(points[i], point, t));
+    }
+    return [left, right];
+};
+
+/**
+ * Görbét szorosan befoglaló téglalap
+ * @param {Bezier} curve - vezérlőpontok (legfeljebb harmadfokú görbe)
+ * @return {Rect} {x,y,w,h}
+ */
+export const getBezierBounds = function(curve: Bezier): Rect {
+    const params = [0, 1];
+    const degree = curve.length - 1;
+    (['x', 'y'] as const).forEach((axis) => {
+        // a derivált gyökei az adott tengely mentén
+        const d = curve.slice(1).map((point, i) => degree * (point[axis] - curve[i][axis]));
+        if (d.length === 2) {
+            if (d[0] !== d[1]) {
+                params.push(d[0] / (d[0] - d[1]));
+            }
+        }
+        else if (d.length === 3) {
+            const a = d[0] - 2 * d[1] + d[2];
+            const b = 2 * (d[1] - d[0]);
+            const c = d[0];
+            if (Math.abs(a) < 1e-12) {
+                if (b) {
+                    params.push(-c / b);
+                }
+            }
+            else {
+                const discriminant = b * b - 4 * a * c;
+                if (discriminant >= 0) {
+                    const root = Math.sqrt(discriminant);
+                    params.push((-b + root) / (2 * a), (-b - root) / (2 * a));
+                }
+            }
+        }
+    });
+    return getPolygonBounds(params.filter(t => t >= 0 && t <= 1).map(t => getBezierPoint(curve, t)));
+};
+
+/**
+ * Görbe ívhossza
+ * @param {Bezier} curve - vezérlőpontok
+ * @param {number} [t=1] - a mérés vége (a 0..t rész hossza)
+ * @return {number}
+ */
+export const getBezierLength = function(curve: Bezier, t: number = 1): number {
+    const intervals = 16;
+    let length = 0;
+    for (let i = 0; i < intervals; i++) {
+        const from = t * i / intervals;
+        const half = t / intervals / 2;
+        gaussLegendre.forEach(([node, weight]) => {
+            const derivative = getBezierDerivative(curve, from + half + half * node);
+            length += weight * half * Math.sqrt(derivative.x * derivative.x + derivative.y * derivative.y);
+        });
+    }
+    return length;
+};
+
+/**
+ * Adott ívhosszhoz tartozó paraméter (ívhossz szerinti paraméterezés)
+ * @param {Bezier} curve - vezérlőpontok
+ * @param {number} length - a kezdőponttól mért ívhossz
+ * @return {number} t (0 és 1 közé szorítva)
+ * @example
+ *  // egyenletes sebességű mozgatás a görbén
+ *  const point = getBezierPoint(curve, getBezierParameterAt(curve, progress * getBezierLength(curve)));
+ */
+export const getBezierParameterAt = function(curve: Bezier, length: number): number {
+    const total = getBezierLength(curve);
+    if (length <= 0 || !total) {
+        return 0;
+    }
+    if (length >= total) {
+        return 1;
+    }
+    let low = 0;
+    let high = 1;
+    let t = length / total;
+    for (let i = 0; i < 30 && high - low > 1e-10; i++) {
+        const difference = getBezierLength(curve, t) - length;
+        if (Math.abs(difference) < 1e-9) {
+            break;
+        }
+        if (difference > 0) {
+            high = t;
+        }
+        else {
+            low = t;
+        }
+        // Newton-lépés, ha az intervallumon belül marad, különben felezés
+        const derivative = getBezierDerivative(curve, t);
+        const next = t - difference / Math.sqrt(derivative.x * derivative.x + derivative.y * derivative.y);
+        t = next > low && next < high ? next : (low + high) / 2;
+    }
+    return t;
+};
+
+/**
+ * Görbe legközelebbi pontja egy ponthoz
+ * @param {Bezier} curve - vezérlőpontok
+ * @param {Coord} point - {x,y}
+ * @return {object} {t: paraméter, point: a görbe legközelebbi pontja, distance: távolsága a ponttól}
+ */
+export const getClosestPointOnBezier = function(curve: Bezier, point: Coord): { t: number, point: Coord, distance: number } {
+    const samples = 64;
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i <= samples; i++) {
+        const d = distance(getBezierPoint(curve, i / samples), point);
+        if (d < bestDistance) {
+            best = i / samples;
+            bestDistance = d;
+        }
+    }
+    // finomítás a legjobb minta környezetében
+    let step = 1 / samples;
+    while (step > 1e-10) {
+        step /= 2;
+        [best - step, best + step].filter(t => t >= 0 && t <= 1).forEach((t) => {
+            const d = distance(getBezierPoint(curve, t), point);
+            if (d < bestDistance) {
+                best = t;
+                bestDistance = d;
+            }
+        });
+    }
+    return { t: best, point: getBezierPoint(curve, best), distance: bestDistance };
+};
+
+/**
+ * Catmull-Rom spline a megadott pontokon keresztül
+ * @param {array<Coord>} points - pontok
+ * @param {number} [tension=0.5] - görbültség (0: töröttvonal, 0.5: szabványos Catmull-Rom)
+ * @param {boolean} [closed=false] - zárt görbe
+ * @return {array<Bezier>} a szomszédos pontokat összekötő harmadfokú görbék
+ */
+export const getCatmullRomCurves = function(points: Coord[], tension: number = 0.5, closed: boolean = false): Bezier[] {
+    if (points.length < 2) {
+        return [];
+    }
+    const count = closed ? points.length : points.length - 1;
+    const at = function(i: number): Coord {
+        if (closed) {
+            return points[(i + points.length) % points.length];
+        }
+        return points[Math.max(0, Math.min(points.length - 1, i))];
+    };
+    return Array.from({ length: count }, (_v, i) => {
+        const [p0, p1, p2, p3] = [at(i - 1), at(i), at(i + 1), at(i + 2)];
+        return [
+            p1,
+            addCoords(p1, scaleCoord(subtractCoords(p2, p0), tension / 3)),
+            subtractCoords(p2, scaleCoord(subtractCoords(p3, p1), tension / 3)),
+            p2
+        ];
+    });
+};
+
+/**
+ * SVG ív átalakítása harmadfokú Bézier-görbékké
+ * @param {Coord} from - kezdőpont
+ * @param {array<number>} arc - [rx, ry, x tengely elforgatása (fok), large-arc-flag, sweep-flag, x, y]
+ * @return {array<Bezier>}
+ */
+const arcToCurves = function(from: Coord, arc: number[]): Bezier[] {
+    const [, , rotation, largeArc, sweep, x, y] = arc;
+    let [rx, ry] = [Math.abs(arc[0]), Math.abs(arc[1])];
+    if (!rx || !ry) {
+        return [[from, { x, y }]];
+    }
+    const phi = rotation * Math.PI / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    const dx = (from.x - x) / 2;
+    const dy = (from.y - y) / 2;
+    const x1 = cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+    // túl kicsi sugarak felnagyítása (SVG szabvány)
+    const lambda = x1 * x1 / (rx * rx) + y1 * y1 / (ry * ry);
+    if (lambda > 1) {
+        rx *= Math.sqrt(lambda);
+        ry *= Math.sqrt(lambda);
+    }
+    const sign = largeArc === sweep ? -1 : 1;
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const factor = sign * Math.sqrt(Math.max(0, numerator / (rx * rx * y1 * y1 + ry * ry * x1 * x1)));
+    const cx1 = factor * rx * y1 / ry;
+    const cy1 = -factor * ry * x1 / rx;
+    const center = {
+        x: cos * cx1 - sin * cy1 + (from.x + x) / 2,
+        y: sin * cx1 + cos * cy1 + (from.y + y) / 2
+    };
+    const angle = (ux: number, uy: number, vx: number, vy: number): number => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+    let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+    if (!sweep && delta > 0) {
+        delta -= 2 * Math.PI;
+    }
+    else if (sweep && delta < 0) {
+        delta += 2 * Math.PI;
+    }
+    const pieces = Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9) || 1;
+    const step = delta / pieces;
+    const k = 4 / 3 * Math.tan(step / 4);
+    const onEllipse = (theta: number, scale: number = 1): Coord => ({
+        x: scale * (cos * rx * Math.cos(theta) - sin * ry * Math.sin(theta)),
+        y: scale * (sin * rx * Math.cos(theta) + cos * ry * Math.sin(theta))
+    });
+    return Array.from({ length: pieces }, (_v, i) => {
+        const theta1 = start + i * step;
+        const theta2 = theta1 + step;
+        const p0 = addCoords(center, onEllipse(theta1));
+        const p3 = i === pieces - 1 ? { x, y } : addCoords(center, onEllipse(theta2));
+        const d1 = onEllipse(theta1 + Math.PI / 2, k);
+        const d2 = onEllipse(theta2 + Math.PI / 2, k);
+        return [i ? p0 : from, addCoords(p0, d1), subtractCoords(p3, d2), p3];
+    });
+};
+
+/**
+ * SVG útvonal (path d attribútum) feldolgozása
+ * @param {string} d - útvonal, pl. 'M10 10 h 80 q 20 0 20 20 A 10 10 0 0 1 100 50 Z'
+ * @return {array<Bezier>} abszolút koordinátájú szakaszok és görbék (az M parancsok új kezdőpontot jelentenek)
+ * @description
+ *  Minden parancs támogatott (M L H V C S Q T A Z, kis- és nagybetűvel); az ívek harmadfokú görbékké alakulnak.
+ */
+export const parseSvgPath = function(d: string): Bezier[] {
+    const curves: Bezier[] = [];
+    const pattern = /\s*,?\s*(?:([MmLlHhVvCcSsQqTtAaZz])|([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?))/y;
+    let index = 0;
+    const next = function(flag: boolean = false): { command?: string, value?: number } | null {
+        if (flag) {
+            // az ívek jelzői elválasztó nélkül is követhetik egymást (pl. 'a1 1 0 1110 10')
+            const match = d.slice(index).match(/^\s*,?\s*([01])/);
+            if (!match) {
+                throw new Error(`Invalid SVG path at ${index}: ${d}`);
+            }
+            index += match[0].length;
+            return { value: Number(match[1]) };
+        }
+        pattern.lastIndex = index;
+        const match = pattern.exec(d);
+        if (!match) {
+            if (d.slice(index).trim()) {
+                throw new Error(`Invalid SVG path at ${index}: ${d}`);
+            }
+            return null;
+        }
+        index = pattern.lastIndex;
+        return match[1] ? { command: match[1] } : { value: Number(match[2]) };
+    };
+    const argCounts: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 };
+    let current = { x: 0, y: 0 };
+    let start = { x: 0, y: 0 };
+    let command = '';
+    let previous: Bezier | null = null;
+    let token = next();
+    while (token) {
+        if (token.command) {
+            command = token.command;
+        }
+        else if (!command || /[zZ]/.test(command)) {
+            throw new Error(`Invalid SVG path at ${index}: ${d}`);
+        }
+        const lower = command.toLowerCase();
+        const relative = command === lower;
+        const args: number[] = [];
+        if (!token.command) {
+            args.push(token.value as number);
+        }
+        while (args.length < argCounts[lower]) {
+            const value = next(lower === 'a' && (args.length === 3 || args.length === 4));
+            if (value?.value === undefined) {
+                throw new Error(`Invalid SVG path at ${index}: ${d}`);
+            }
+            args.push(value.value);
+        }
+        const point = function(i: number): Coord {
+            return relative ? { x: current.x + args[i], y: current.y + args[i + 1] } : { x: args[i], y: args[i + 1] };
+        };
+        // a sima (S, T) görbék első vezérlőpontja az előző görbe utolsó vezérlőpontjának tükörképe
+        const reflected = function(degree: number): Coord {
+            if (previous && previous.length === degree + 1) {
+                return subtractCoords(scaleCoord(current, 2), previous[degree - 1]);
+            }
+            return current;
+        };
+        const builders: Record<string, () => Bezier> = {
+            l: () => [current, point(0)],
+            h: () => [current, { x: relative ? current.x + args[0] : args[0], y: current.y }],
+            v: () => [current, { x: current.x, y: relative ? current.y + args[0] : args[0] }],
+            c: () => [current, point(0), point(2), point(4)],
+            s: () => [current, reflected(3), point(0), point(2)],
+            q: () => [current, point(0), point(2)],
+            t: () => [current, reflected(2), point(0)]
+        };
+        if (lower === 'm') {
+            current = start = point(0);
+            // az M utáni további koordinátapárok L parancsok
+            command = relative ? 'l' : 'L';
+            previous = null;
+        }
+        else if (lower === 'z') {
+            if (current.x !== start.x || current.y !== start.y) {
+                curves.push([current, start]);
+            }
+            current = start;
+            previous = null;
+        }
+        else if (lower === 'a') {
+            const end = point(5);
+            curves.push(...arcToCurves(current, [...args.slice(0, 5), end.x, end.y]));
+            current = end;
+            previous = null;
+        }
+        else {
+            const curve = builders[lower]();
+            curves.push(curve);
+            current = curve[curve.length - 1];
+            previous = curve;
+        }
+        token = next();
+    }
+    return curves;
+};
+
+/**
+ * Görbék összhossza
+ * @param {array<Bezier>} curves - pl. a parseSvgPath() eredménye
+ * @return {number}
+ */
+export const getPathLength = function(curves: Bezier[]): number {
+    return curves.reduce((acc, curve) => acc + getBezierLength(curve), 0);
+};
+
+/**
+ * Egyenletes távolságú pontok görbék mentén
+ * @param {array<Bezier>} curves - pl. a parseSvgPath() vagy a getCatmullRomCurves() eredménye
+ * @param {number} count - pontok száma (legalább 2; az első a kezdőpont, az utolsó a végpont)
+ * @return {array<Coord>}
+ * @example
+ *  samplePath(parseSvgPath(path.getAttribute('d')), 100).forEach(point => ctx.lineTo(point.x, point.y));
+ */
+export const samplePath = function(curves: Bezier[], count: number): Coord[] {
+    const lengths = curves.map(curve => getBezierLength(curve));
+    const total = lengths.reduce((acc, length) => acc + length, 0);
+    if (!curves.length || count < 1) {
+        return [];
+    }
+    return Array.from({ length: count }, (_v, i) => {
+        let remaining = count > 1 ? total * i / (count - 1) : 0;
+        let index = 0;
+        while (index < curves.length - 1 && remaining > lengths[index]) {
+            remaining -= lengths[index];
+            index++;
+        }
+        return getBezierPoint(curves[index], getBezierParameterAt(curves[index], remaining));
+    });
+};
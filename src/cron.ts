@@ -0,0 +1,456 @@
+/**
+ * Cron
+ *
+ * @description Cron kifejezések feldolgozása, következő és előző futások kiszámítása
+ * @requires datetime
+ */
+
+import { daysInMonth, fromWall, getLocale, toWall } from './datetime';
+
+/**
+ * Feldolgozott cron kifejezés
+ * @description
+ *  seconds, minutes, hours, days, months, weekdays: az egyes mezők megengedett értékei
+ *      (days: 1..31, months: 1..12, weekdays: 0[vasárnap]..6[szombat])
+ *  lastDay: L a hónap napja mezőben (a hónap utolsó napja)
+ *  lastWorkday: LW a hónap napja mezőben (a hónap utolsó hétköznapja)
+ *  nearestWorkdays: 15W alakú értékek (a 15-höz legközelebbi hétköznap a hónapon belül)
+ *  lastWeekdays: 5L alakú értékek (a hónap utolsó péntekje)
+ *  nthWeekdays: 1#2 alakú értékek ([hét napja, hányadik]; a hónap második hétfője)
+ *  daysRestricted, weekdaysRestricted: meg van-e kötve a mező (ha mindkettő, elég az egyiknek teljesülnie)
+ *  source: a mezők normalizált szövege (másodperccel együtt)
+ */
+export interface CronFields {
+    seconds: number[];
+    minutes: number[];
+    hours: number[];
+    days: number[];
+    months: number[];
+    weekdays: number[];
+    lastDay: boolean;
+    lastWorkday: boolean;
+    nearestWorkdays: number[];
+    lastWeekdays: number[];
+    nthWeekdays: [number, number][];
+    daysRestricted: boolean;
+    weekdaysRestricted: boolean;
+    source: string[];
+}
+
+/**
+ * A Cron() beállításai
+ * @description
+ *  timezone: IANA időzóna azonosító, amely szerint a kifejezést értelmezi (alapértelmezett: helyi időzóna)
+ */
+export interface CronOptions {
+    timezone?: string;
+}
+
+interface CronFieldDefinition {
+    unit: string;
+    min: number;
+    max: number;
+    names?: string[];
+}
+
+const weekdayNames = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const monthNames = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * Mezők sorrendben (másodperc, perc, óra, hónap napja, hónap, hét napja)
+ * @type {Array}
+ */
+const fieldDefinitions: CronFieldDefinition[] = [
+    { unit: 'second', min: 0, max: 59 },
+    { unit: 'minute', min: 0, max: 59 },
+    { unit: 'hour', min: 0, max: 23 },
+    { unit: 'day', min: 1, max: 31 },
+    { unit: 'month', min: 1, max: 12, names: ['', ...monthNames] },
+    { unit: 'weekday', min: 0, max: 7, names: weekdayNames }
+];
+
+/**
+ * Rövidítések
+ * @type {Object}
+ */
+const macros: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *'
+};
+
+/**
+ * Mező egy értékének feldolgozása (szám vagy név)
+ * @param {string} value
+ * @param {CronFieldDefinition} definition
+ * @return {number}
+ */
+const parseValue = function(value: string, definition: CronFieldDefinition): number {
+    const index = definition.names?.indexOf(value) ?? -1;
+    const number = index > -1 ? index : Number(value);
+    if (!/^\d+$/.test(value) && index === -1 || number < definition.min || number > definition.max) {
+        throw new Error(`Invalid cron ${definition.unit}: ${value}`);
+    }
+    return number;
+};
+
+/**
+ * Mező egy vesszővel elválasztott részének feldolgozása (*, a, a-b, *\/n, a-b/n, a/n)
+ * @param {string} part
+ * @param {CronFieldDefinition} definition
+ * @return {array<number>}
+ */
+const parsePart = function(part: string, definition: CronFieldDefinition): number[] {
+    const [range, stepValue, ...rest] = part.split('/');
+    const step = stepValue === undefined ? 1 : Number(stepValue);
+    if (rest.length || !Number.isInteger(step) || step < 1) {
+        throw new Error(`Invalid cron ${definition.unit} step: ${part}`);
+    }
+    let start = definition.min;
+    let end = definition.max;
+    if (range !== '*' && range !== '?') {
+        const bounds = range.split('-');
+        if (bounds.length > 2) {
+            throw new Error(`Invalid cron ${definition.unit} range: ${part}`);
+        }
+        start = parseValue(bounds[0], definition);
+        end = bounds.length === 2 ? parseValue(bounds[1], definition) : (stepValue === undefined ? start : definition.max);
+        if (start > end) {
+            throw new Error(`Invalid cron ${definition.unit} range: ${part}`);
+        }
+    }
+    const values = [];
+    for (let value = start; value <= end; value += step) {
+        values.push(value);
+    }
+    return values;
+};
+
+/**
+ * Cron kifejezés feldolgozása
+ * @param {string} expression - 5 mezős (perc, óra, nap, hónap, hét napja) vagy 6 mezős (másodperccel kezdődő) kifejezés
+ * @return {CronFields}
+ * @description
+ *  Támogatott: *, ?, listák (1,15), tartományok (1-5), lépésköz (*\/15, 8-18/2), nevek (JAN..DEC, SUN..SAT),
+ *  L, LW és 15W a hónap napja mezőben, 5L és 1#2 a hét napja mezőben, valamint @yearly, @monthly, @weekly, @daily, @hourly
+ * @example
+ *  parseCron('0 9 * * MON-FRI');
+ */
+export const parseCron = function(expression: string): CronFields {
+    const normalized = expression.trim().toUpperCase();
+    const source = (macros[normalized.toLowerCase()] ?? normalized).split(/\s+/);
+    if (source.length === 5) {
+        source.unshift('0');
+    }
+    if (source.length !== 6) {
+        throw new Error(`Invalid cron expression: ${expression}`);
+    }
+    const fields: CronFields = {
+        seconds: [],
+        minutes: [],
+        hours: [],
+        days: [],
+        months: [],
+        weekdays: [],
+        lastDay: false,
+        lastWorkday: false,
+        nearestWorkdays: [],
+        lastWeekdays: [],
+        nthWeekdays: [],
+        daysRestricted: !['*', '?'].includes(source[3]),
+        weekdaysRestricted: !['*', '?'].includes(source[5]),
+        source
+    };
+    const targets: (keyof CronFields)[] = ['seconds', 'minutes', 'hours', 'days', 'months', 'weekdays'];
+    source.forEach((field, index) => {
+        const definition = fieldDefinitions[index];
+        const values = new Set<number>();
+        field.split(',').forEach((part) => {
+            let match: RegExpMatchArray | null;
+            if (definition.unit === 'day' && part === 'L') {
+                fields.lastDay = true;
+            }
+            else if (definition.unit === 'day' && part === 'LW') {
+                fields.lastWorkday = true;
+            }
+            else if (definition.unit === 'day' && (match = part.match(/^(\d+)W$/))) {
+                fields.nearestWorkdays.push(parseValue(match[1], definition));
+            }
+            else if (definition.unit === 'weekday' && (match = part.match(/^(\w+)L$/))) {
+                fields.lastWeekdays.push(parseValue(match[1], definition) % 7);
+            }
+            else if (definition.unit === 'weekday' && (match = part.match(/^(\w+)#([1-5])$/))) {
+                fields.nthWeekdays.push([parseValue(match[1], definition) % 7, Number(match[2])]);
+            }
+            else {
+                parsePart(part, definition).forEach(value => values.add(definition.unit === 'weekday' ? value % 7 : value));
+            }
+        });
+        (fields[targets[index]] as number[]) = [...values].sort((a, b) => a - b);
+    });
+    return fields;
+};
+
+/**
+ * A hónap egy napjához legközelebbi hétköznap a hónapon belül (W)
+ * @param {number} year
+ * @param {number} month - 1..12
+ * @param {number} day
+ * @return {number | null} nap, vagy null, ha a nap nem létezik a hónapban
+ */
+const nearestWorkday = function(year: number, month: number, day: number): number | null {
+    const lastDay = daysInMonth(year, month);
+    if (day > lastDay) {
+        return null;
+    }
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    if (weekday === 6) {
+        return day === 1 ? 3 : day - 1;
+    }
+    if (weekday === 0) {
+        return day === lastDay ? day - 2 : day + 1;
+    }
+    return day;
+};
+
+/**
+ * Illeszkedik-e a nap a hónap napja és a hét napja mezőkre
+ * @param {CronFields} fields
+ * @param {Date} wall - falióra szerinti idő UTC-ként tárolva
+ * @return {boolean}
+ */
+const matchesDay = function(fields: CronFields, wall: Date): boolean {
+    const year = wall.getUTCFullYear();
+    const month = wall.getUTCMonth() + 1;
+    const day = wall.getUTCDate();
+    const weekday = wall.getUTCDay();
+    const lastDay = daysInMonth(year, month);
+    const dayMatches = fields.days.includes(day) ||
+        fields.lastDay && day === lastDay ||
+        fields.lastWorkday && day === nearestWorkday(year, month, lastDay) ||
+        fields.nearestWorkdays.some(value => nearestWorkday(year, month, value) === day);
+    const weekdayMatches = fields.weekdays.includes(weekday) ||
+        fields.lastWeekdays.includes(weekday) && day + 7 > lastDay ||
+        fields.nthWeekdays.some(([value, nth]) => value === weekday && Math.ceil(day / 7) === nth);
+    if (fields.daysRestricted && fields.weekdaysRestricted) {
+        return dayMatches || weekdayMatches;
+    }
+    return (!fields.daysRestricted || dayMatches) && (!fields.weekdaysRestricted || weekdayMatches);
+};
+
+/**
+ * Futási időpontok keresése egy irányba
+ * @param {CronFields} fields
+ * @param {number} count - időpontok száma
+ * @param {number} from - kezdő időpont (UNIX timestamp, nem része az eredménynek)
+ * @param {1 | -1} direction - 1: előre, -1: visszafelé
+ * @param {string} [timezone]
+ * @return {array<number>} UNIX timestampek
+ */
+const findOccurrences = function(
+    fields: CronFields, count: number, from: number, direction: 1 | -1, timezone?: string
+): number[] {
+    const occurrences: number[] = [];
+    const limit = toWall(from, timezone).getUTCFullYear() + direction * 100;
+    let last = from;
+    let wall = toWall(direction > 0 ? Math.floor(from) + 1 : Math.ceil(from) - 1, timezone);
+    wall.setUTCMilliseconds(0);
+    // a nem illeszkedő egységnél a következő (visszafelé az előző) egység határára ugrik
+    const jump = function(...parts: number[]): Date {
+        const [year, month, day = 1, hour = 0, minute = 0, second = 0] = parts;
+        const boundary = new Date(0);
+        boundary.setUTCFullYear(year, month, day);
+        boundary.setUTCHours(hour, minute, second);
+        return new Date(boundary.getTime() - (direction > 0 ? 0 : 1000));
+    };
+    while (occurrences.length < count && direction * (limit - wall.getUTCFullYear()) > 0) {
+        const next = direction > 0 ? 1 : 0;
+        const [year, month, day] = [wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate()];
+        const [hour, minute, second] = [wall.getUTCHours(), wall.getUTCMinutes(), wall.getUTCSeconds()];
+        if (!fields.months.includes(month + 1)) {
+            wall = jump(year, month + next);
+        }
+        else if (!matchesDay(fields, wall)) {
+            wall = jump(year, month, day + next);
+        }
+        else if (!fields.hours.includes(hour)) {
+            wall = jump(year, month, day, hour + next);
+        }
+        else if (!fields.minutes.includes(minute)) {
+            wall = jump(year, month, day, hour, minute + next);
+        }
+        else if (!fields.seconds.includes(second)) {
+            wall = jump(year, month, day, hour, minute, second + next);
+        }
+        else {
+            const time = fromWall(wall, timezone);
+            // óraátállításkor két falióra szerinti időpont is ugyanarra az időpontra eshet
+            if (direction * (time - last) > 0) {
+                occurrences.push(time);
+                last = time;
+            }
+            wall = new Date(wall.getTime() + direction * 1000);
+        }
+    }
+    return occurrences;
+};
+
+/**
+ * Mező szöveges leírása
+ * @param {string} field - a mező normalizált szövege
+ * @param {CronFieldDefinition} definition
+ * @param {function} name - érték megjelenítése
+ * @return {string | null} null, ha a mező nincs megkötve
+ */
+const describeField = function(field: string, definition: CronFieldDefinition, name: (value: number) => string): string | null {
+    if (field === '*' || field === '?') {
+        return null;
+    }
+    const list = field.split(',').map((part) => {
+        const [range, step] = part.split('/');
+        const bounds = range === '*' ? [] : range.split('-').map(value => name(parseValue(value, definition)));
+        const every = step ? `every ${step} ${definition.unit}s` : '';
+        if (bounds.length === 2) {
+            return `${every}${every ? ', ' : ''}${bounds[0]} through ${bounds[1]}`;
+        }
+        if (bounds.length === 1 && step) {
+            return `${every} starting at ${bounds[0]}`;
+        }
+        return bounds.length ? bounds[0] : every;
+    });
+    return list.length > 1 ? `${list.slice(0, -1).join(', ')} and ${list[list.length - 1]}` : list[0];
+};
+
+/**
+ * Cron kifejezés leírása angolul
+ * @param {CronFields} fields
+ * @return {string}
+ * @example
+ *  describeCron(parseCron('0 9 * * MON-FRI')); // 'At 09:00, on Monday through Friday'
+ */
+export const describeCron = function(fields: CronFields): string {
+    const [second, minute, hour, day, month, weekday] = fields.source;
+    const english = getLocale('en');
+    const pad = (value: number): string => String(value).padStart(2, '0');
+    const single = (field: string): boolean => /^\d+$/.test(field);
+    const parts: string[] = [];
+
+    if (single(second) && single(minute) && single(hour)) {
+        parts.push(`At ${pad(Number(hour))}:${pad(Number(minute))}${second === '0' ? '' : `:${pad(Number(second))}`}`);
+    }
+    else {
+        const [secondDefinition, minuteDefinition, hourDefinition] = fieldDefinitions;
+        const seconds = describeField(second, secondDefinition, String);
+        const minutes = describeField(minute, minuteDefinition, String);
+        const hours = describeField(hour, hourDefinition, value => `${pad(value)}:00`);
+        if (second !== '0') {
+            parts.push(seconds ? (seconds.startsWith('every') ? seconds : `at second ${seconds}`) : 'every second');
+        }
+        if (minutes) {
+            parts.push(minutes.startsWith('every') ? minutes : `at minute ${minutes}`);
+        }
+        else if (second === '0') {
+            parts.push('every minute');
+        }
+        if (hours) {
+            parts.push(hours.startsWith('every') ? hours : `during the hour of ${hours}`);
+        }
+        parts[0] = parts[0].charAt(0).toUpperCase() + parts[0].slice(1);
+    }
+
+    const dayParts: string[] = [];
+    if (fields.lastDay) {
+        dayParts.push('on the last day of the month');
+    }
+    if (fields.lastWorkday) {
+        dayParts.push('on the last weekday of the month');
+    }
+    fields.nearestWorkdays.forEach((value) => {
+        dayParts.push(`on the weekday nearest day ${value} of the month`);
+    });
+    const plainDays = day.split(',').filter(part => !/[LW]/.test(part)).join(',');
+    const days = plainDays && describeField(plainDays, fieldDefinitions[3], String);
+    if (days) {
+        dayParts.push(`on day ${days} of the month`);
+    }
+    const ordinals = ['first', 'second', 'third', 'fourth', 'fifth'];
+    fields.lastWeekdays.forEach((value) => {
+        dayParts.push(`on the last ${english.days[value]} of the month`);
+    });
+    fields.nthWeekdays.forEach(([value, nth]) => {
+        dayParts.push(`on the ${ordinals[nth - 1]} ${english.days[value]} of the month`);
+    });
+    const plainWeekdays = weekday.split(',').filter(part => !/[L#]/.test(part)).join(',');
+    const weekdays = plainWeekdays && describeField(plainWeekdays, fieldDefinitions[5], value => english.days[value % 7]);
+    if (weekdays) {
+        dayParts.push(`on ${weekdays}`);
+    }
+    if (dayParts.length) {
+        parts.push(dayParts.join(fields.daysRestricted && fields.weekdaysRestricted ? ' or ' : ', '));
+    }
+
+    const months = describeField(month, fieldDefinitions[4], value => english.months[value - 1]);
+    if (months) {
+        parts.push(months.startsWith('every') ? months : `only in ${months}`);
+    }
+    return parts.join(', ');
+};
+
+/**
+ * Cron kifejezés kezelő
+ * @param {string} expression - cron kifejezés (lásd parseCron())
+ * @param {CronOptions} [options] - beállítások
+ * @return {object}
+ * @description
+ *  Nem létező időpont (óraátállítás előre) esetén az átállítás utáni időpontban fut,
+ *  kétszer előforduló időpont (óraátállítás vissza) esetén csak egyszer, a későbbiben.
+ * @example
+ *  const job = Cron('0 30 2 * * *', { timezone: 'Europe/Budapest' });
+ *  job.next(3).map(timestamp => format('Y-m-d H:i', timestamp, { timezone: 'Europe/Budapest' }));
+ *  job.describe(); // 'At 02:30'
+ */
+export const Cron = function(expression: string, options: CronOptions = {}) {
+    const fields = parseCron(expression);
+
+    return {
+
+        /**
+         * Feldolgozott mezők
+         * @type {CronFields}
+         */
+        fields,
+
+        /**
+         * Következő futások
+         * @param {number} [count=1] - futások száma
+         * @param {number} [from] - kezdő időpont (UNIX timestamp, alapértelmezett: most)
+         * @return {array<number>} UNIX timestampek
+         */
+        next: function(count: number = 1, from: number = Date.now() / 1000): number[] {
+            return findOccurrences(fields, count, from, 1, options.timezone);
+        },
+
+        /**
+         * Előző futások (időben visszafelé haladva)
+         * @param {number} [count=1] - futások száma
+         * @param {number} [from] - kezdő időpont (UNIX timestamp, alapértelmezett: most)
+         * @return {array<number>} UNIX timestampek
+         */
+        prev: function(count: number = 1, from: number = Date.now() / 1000): number[] {
+            return findOccurrences(fields, count, from, -1, options.timezone);
+        },
+
+        /**
+         * Leírás angolul
+         * @return {string}
+         */
+        describe: function(): string {
+            return describeCron(fields);
+        }
+
+    };
+};
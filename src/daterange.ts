@@ -0,0 +1,251 @@
+/**
+ * DateRange
+ *
+ * @description ISO 8601 időtartamok és időintervallumok kezelése
+ * @requires datetime
+ */
+
+import { DateDuration, FormatOptions, add, format, fromWall, startOf, sub } from './datetime';
+
+/**
+ * Időintervallum (a kezdete benne van, a vége nincs)
+ * @description
+ *  start, end: UNIX timestamp
+ */
+export interface DateRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Időtartam egységei az ISO 8601 jelöléssel, sorrendben
+ * @type {Array}
+ */
+const durationDesignators: [keyof DateDuration, string, boolean][] = [
+    ['years', 'Y', false],
+    ['months', 'M', false],
+    ['weeks', 'W', false],
+    ['days', 'D', false],
+    ['hours', 'H', true],
+    ['minutes', 'M', true],
+    ['seconds', 'S', true]
+];
+
+/**
+ * ISO 8601 időtartam feldolgozása
+ * @param {string} text - pl. 'P1Y2M3DT4H', 'PT1.5S', 'P2W', '-P1D'
+ * @return {DateDuration} az add() és sub() paramétere
+ * @example
+ *  add(timestamp, parseDuration('P1DT12H'), { timezone: 'Europe/Budapest' });
+ */
+export const parseDuration = function(text: string): DateDuration {
+    const match = text.match(
+        /^([+-])?P(?:(\d+(?:[.,]\d+)?)Y)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)W)?(?:(\d+(?:[.,]\d+)?)D)?(?:T(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/
+    );
+    if (!match || /^[+-]?P$/.test(text) || text.endsWith('T')) {
+        throw new Error(`Invalid ISO 8601 duration: ${text}`);
+    }
+    const sign = match[1] === '-' ? -1 : 1;
+    const duration: DateDuration = {};
+    durationDesignators.forEach(([unit], index) => {
+        const value = match[index + 2];
+        if (value !== undefined) {
+            duration[unit] = sign * Number(value.replace(',', '.')) || 0;
+        }
+    });
+    return duration;
+};
+
+/**
+ * Időtartam ISO 8601 alakban
+ * @param {DateDuration} duration - időtartam (az értékek előjele azonos kell legyen)
+ * @return {string} pl. 'P1Y2M3DT4H'
+ */
+export const formatDuration = function(duration: DateDuration): string {
+    const negative = Object.values(duration).some(value => value < 0);
+    let date = '';
+    let time = '';
+    durationDesignators.forEach(([unit, designator, isTime]) => {
+        const value = Math.abs(duration[unit] ?? 0);
+        if (value) {
+            if (isTime) {
+                time += `${value}${designator}`;
+            }
+            else {
+                date += `${value}${designator}`;
+            }
+        }
+    });
+    if (!date && !time) {
+        return 'PT0S';
+    }
+    return `${negative ? '-' : ''}P${date}${time ? `T${time}` : ''}`;
+};
+
+/**
+ * ISO 8601 dátum vagy dátum és idő feldolgozása
+ * @param {string} text - pl. '2026-10-19', '2026-10-19T08:30', '2026-10-19T08:30:00.250+02:00', '2026-10-19T06:30Z'
+ * @param {FormatOptions} options - időzóna, ha a szöveg nem tartalmaz eltérést
+ * @return {number | null} UNIX timestamp, vagy null, ha a szöveg nem dátum
+ */
+const parseIsoDate = function(text: string, options: FormatOptions): number | null {
+    const match = text.match(
+        /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,3})\d*)?)?)?(Z|[+-]\d{2}(?::?\d{2})?)?$/
+    );
+    if (!match) {
+        return null;
+    }
+    const [year, month, day, hour = 0, minute = 0, second = 0] = match.slice(1, 7).map(value => Number(value ?? 0));
+    const wall = new Date(0);
+    wall.setUTCFullYear(year, month - 1, day);
+    wall.setUTCHours(hour, minute, second, Number((match[7] ?? '0').padEnd(3, '0')));
+    if (wall.getUTCMonth() !== month - 1 || wall.getUTCDate() !== day || hour > 23 || minute > 59 || second > 59) {
+        return null;
+    }
+    if (!match[8]) {
+        return fromWall(wall, options.timezone);
+    }
+    const [, sign = '+', hours = '0', minutes = '0'] = match[8].match(/^([+-])(\d{2}):?(\d{2})?$/) ?? [];
+    const offset = (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
+    return (wall.getTime() - offset * 6e4) / 1000;
+};
+
+/**
+ * ISO 8601 időintervallum feldolgozása
+ * @param {string} text - 'kezdet/vég', 'kezdet/időtartam' vagy 'időtartam/vég'
+ * @param {FormatOptions} [options] - időzóna az eltérés nélküli dátumokhoz és az időtartam hozzáadásához
+ * @return {DateRange}
+ * @example
+ *  parseRange('2026-10-19T08:00/PT8H', { timezone: 'Europe/Budapest' });
+ *  parseRange('2026-10-01/2026-11-01');
+ */
+export const parseRange = function(text: string, options: FormatOptions = {}): DateRange {
+    const parts = text.split('/');
+    if (parts.length !== 2) {
+        throw new Error(`Invalid ISO 8601 interval: ${text}`);
+    }
+    const [first, second] = parts;
+    const start = parseIsoDate(first, options);
+    const end = parseIsoDate(second, options);
+    let range: DateRange | null = null;
+    if (start !== null && end !== null) {
+        range = { start, end };
+    }
+    else if (start !== null && second.match(/^[+-]?P/)) {
+        range = { start, end: add(start, parseDuration(second), options) };
+    }
+    else if (end !== null && first.match(/^[+-]?P/)) {
+        range = { start: sub(end, parseDuration(first), options), end };
+    }
+    if (!range || range.end < range.start) {
+        throw new Error(`Invalid ISO 8601 interval: ${text}`);
+    }
+    return range;
+};
+
+/**
+ * Időintervallum ISO 8601 alakban
+ * @param {DateRange} range - időintervallum
+ * @param {FormatOptions} [options] - időzóna
+ * @return {string} 'kezdet/vég' (pl. '2026-10-19T08:00:00+02:00/2026-10-19T16:00:00+02:00')
+ */
+export const formatRange = function(range: DateRange, options: FormatOptions = {}): string {
+    return `${format('c', range.start, options)}/${format('c', range.end, options)}`;
+};
+
+/**
+ * Két időintervallum átfedi-e egymást (az érintkezés nem átfedés)
+ * @param {DateRange} range1
+ * @param {DateRange} range2
+ * @return {boolean}
+ */
+export const rangesOverlap = function(range1: DateRange, range2: DateRange): boolean {
+    return range1.start < range2.end && range2.start < range1.end;
+};
+
+/**
+ * Két időintervallum metszete
+ * @param {DateRange} range1
+ * @param {DateRange} range2
+ * @return {DateRange | null} null, ha nincs átfedés
+ */
+export const getRangeIntersection = function(range1: DateRange, range2: DateRange): DateRange | null {
+    if (!rangesOverlap(range1, range2)) {
+        return null;
+    }
+    return {
+        start: Math.max(range1.start, range2.start),
+        end: Math.min(range1.end, range2.end)
+    };
+};
+
+/**
+ * Időintervallumok uniója (az átfedő és érintkező intervallumok összevonása)
+ * @param {array<DateRange>} ranges
+ * @return {array<DateRange>} időrendben, átfedés nélkül
+ */
+export const mergeRanges = function(ranges: DateRange[]): DateRange[] {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    return sorted.reduce(
+        (merged: DateRange[], range) => {
+            const last = merged[merged.length - 1];
+            if (last && range.start <= last.end) {
+                last.end = Math.max(last.end, range.end);
+            }
+            else {
+                merged.push({ ...range });
+            }
+            return merged;
+        },
+        []
+    );
+};
+
+/**
+ * Időintervallumok közötti szabad időszakok
+ * @param {array<DateRange>} ranges - foglalt időszakok
+ * @param {DateRange} [within] - vizsgált időszak (alapértelmezett: az első kezdetétől az utolsó végéig)
+ * @return {array<DateRange>} időrendben
+ * @example
+ *  // szabad időpontok egy napon belül
+ *  getRangeGaps(bookings, { start: startOf(now, 'day'), end: endOf(now, 'day') + 1 });
+ */
+export const getRangeGaps = function(ranges: DateRange[], within?: DateRange): DateRange[] {
+    const merged = mergeRanges(ranges);
+    if (!within && !merged.length) {
+        return [];
+    }
+    const bounds = within ?? { start: merged[0].start, end: merged[merged.length - 1].end };
+    const gaps: DateRange[] = [];
+    let cursor = bounds.start;
+    merged.forEach((range) => {
+        if (range.start > cursor) {
+            gaps.push({ start: cursor, end: Math.min(range.start, bounds.end) });
+        }
+        cursor = Math.max(cursor, range.end);
+    });
+    if (cursor < bounds.end) {
+        gaps.push({ start: cursor, end: bounds.end });
+    }
+    return gaps.filter(gap => gap.end > gap.start);
+};
+
+/**
+ * Időintervallum felosztása napokra vagy (ISO) hetekre
+ * @param {DateRange} range - időintervallum
+ * @param {'day' | 'week'} unit - egység
+ * @param {FormatOptions} [options] - időzóna
+ * @return {array<DateRange>} az első és az utolsó rész csonka lehet
+ */
+export const splitRange = function(range: DateRange, unit: 'day' | 'week', options: FormatOptions = {}): DateRange[] {
+    const parts: DateRange[] = [];
+    let start = range.start;
+    let boundary = startOf(range.start, unit, options);
+    while (start < range.end) {
+        boundary = add(boundary, unit === 'day' ? { days: 1 } : { weeks: 1 }, options);
+        const end = Math.min(boundary, range.end);
+        parts.push({ start, end });
+        start = end;
+    }
+    return parts;
+};
@@ -5,22 +5,529 @@
  * @requires -
  */
 
+/**
+ * Napok és hónapok angol nevei (a napnevekből hiányzik a 'day' végződés)
+ * @type {Array<string>}
+ */
+const txt_words = [
+    'Sun', 'Mon', 'Tues', 'Wednes', 'Thurs', 'Fri', 'Satur',
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+/**
+ * Nyelvi beállítások a napok és hónapok neveihez
+ * @description
+ *  days: napok teljes neve vasárnaptól kezdve (l)
+ *  daysShort: napok rövid neve vasárnaptól kezdve (D)
+ *  months: hónapok teljes neve (F)
+ *  monthsShort: hónapok rövid neve (M)
+ *  ordinal: sorszámnév képzője a hónap napjához (S)
+ */
+export interface DateLocale {
+    days: string[];
+    daysShort: string[];
+    months: string[];
+    monthsShort: string[];
+    ordinal: (day: number) => string;
+}
+
+const englishOrdinals = new Intl.PluralRules('en', { type: 'ordinal' });
+
+/**
+ * Regisztrált nyelvek
+ * @type {Object}
+ */
+const locales: Record<string, DateLocale> = {
+    en: {
+        days: txt_words.slice(0, 7).map(word => `${word}day`),
+        daysShort: txt_words.slice(0, 7).map(word => `${word}day`.slice(0, 3)),
+        months: txt_words.slice(7),
+        monthsShort: txt_words.slice(7).map(word => word.slice(0, 3)),
+        ordinal: (day) => ({ one: 'st', two: 'nd', few: 'rd' } as Record<string, string>)[englishOrdinals.select(day)] ?? 'th'
+    },
+    hu: {
+        days: ['vasárnap', 'hétfő', 'kedd', 'szerda', 'csütörtök', 'péntek', 'szombat'],
+        daysShort: ['V', 'H', 'K', 'Sze', 'Cs', 'P', 'Szo'],
+        months: [
+            'január', 'február', 'március', 'április', 'május', 'június',
+            'július', 'augusztus', 'szeptember', 'október', 'november', 'december'
+        ],
+        monthsShort: ['jan.', 'febr.', 'márc.', 'ápr.', 'máj.', 'jún.', 'júl.', 'aug.', 'szept.', 'okt.', 'nov.', 'dec.'],
+        ordinal: () => '.'
+    }
+};
+
+/**
+ * Nyelv regisztrálása (meglévő felülírására is használható)
+ * @param {string} name - nyelv azonosítója (BCP 47, pl. 'de' vagy 'de-AT')
+ * @param {DateLocale} locale - nevek és sorszámképzés
+ */
+export const registerLocale = function(name: string, locale: DateLocale): void {
+    locales[name] = locale;
+};
+
+/**
+ * Regisztrált nyelv lekérése
+ * @param {string} name - nyelv azonosítója
+ * @return {DateLocale}
+ * @description
+ *  Ha a pontos azonosító (pl. 'hu-HU') nincs regisztrálva, az alapnyelvet (pl. 'hu') keresi,
+ *  ha az sincs, az Intl.DateTimeFormat-ból állítja elő a neveket (sorszámképző nélkül).
+ */
+export const getLocale = function(name: string): DateLocale {
+    const language = name.split('-')[0];
+    if (!locales[name] && locales[language]) {
+        return locales[language];
+    }
+    if (!locales[name]) {
+        const names = function(options: Intl.DateTimeFormatOptions, part: Intl.DateTimeFormatPartTypes, dates: number[]): string[] {
+            const formatter = new Intl.DateTimeFormat(name, { ...options, timeZone: 'UTC' });
+            return dates.map(
+                date => formatter.formatToParts(date).find(item => item.type === part)?.value ?? ''
+            );
+        };
+        // 2023. január 1. vasárnap
+        const weekdays = Array.from({ length: 7 }, (_value, index) => Date.UTC(2023, 0, 1 + index));
+        const firstDays = Array.from({ length: 12 }, (_value, index) => Date.UTC(2023, index, 1));
+        locales[name] = {
+            days: names({ weekday: 'long' }, 'weekday', weekdays),
+            daysShort: names({ weekday: 'short' }, 'weekday', weekdays),
+            months: names({ month: 'long', day: 'numeric' }, 'month', firstDays),
+            monthsShort: names({ month: 'short', day: 'numeric' }, 'month', firstDays),
+            ordinal: () => ''
+        };
+    }
+    return locales[name];
+};
+
+/**
+ * Szökőév-e
+ * @param {number} year - év
+ * @return {boolean}
+ */
+export const isLeapYear = function(year: number): boolean {
+    return year % 4 === 0 && year % 100 !== 0 || year % 400 === 0;
+};
+
+/**
+ * Hónap napjainak száma
+ * @param {number} year - év
+ * @param {number} month - hónap (1..12)
+ * @return {number} 28..31
+ */
+export const daysInMonth = function(year: number, month: number): number {
+    return month === 2 && isLeapYear(year) ? 29 : [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+};
+
+/**
+ * ISO-8601 szerinti év és hét (a hét ahhoz az évhez tartozik, amelyikbe a csütörtökje esik)
+ * @param {number} year - év
+ * @param {number} month - hónap (1..12)
+ * @param {number} day - nap
+ * @return {array} [év, hét]
+ */
+const getIsoWeek = function(year: number, month: number, day: number): [number, number] {
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay() || 7;
+    const thursday = Date.UTC(year, month - 1, day - weekday + 4);
+    const isoYear = new Date(thursday).getUTCFullYear();
+    return [isoYear, 1 + Math.round((thursday - Date.UTC(isoYear, 0, 4)) / 864e5 / 7)];
+};
+
+/**
+ * Időzónánként egy-egy formázó (az Intl.DateTimeFormat példányosítása költséges)
+ * @type {Map<string, Intl.DateTimeFormat>}
+ */
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZoneFormatter = function(timezone: string): Intl.DateTimeFormat {
+    let formatter = zoneFormatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric'
+        });
+        zoneFormatters.set(timezone, formatter);
+    }
+    return formatter;
+};
+
+/**
+ * Időzóna eltérése az UTC-től egy adott időpontban
+ * @param {number} time - időpont (ms)
+ * @param {string} [timezone] - IANA időzóna azonosító, pl. 'Europe/Budapest' (alapértelmezett: helyi időzóna)
+ * @return {number} eltérés percben (UTC-től keletre pozitív)
+ */
+export const getTimezoneOffset = function(time: number, timezone?: string): number {
+    if (!timezone) {
+        return -new Date(time).getTimezoneOffset();
+    }
+    const parts = getZoneFormatter(timezone).formatToParts(time);
+    const part = (type: Intl.DateTimeFormatPartTypes): number => Number(parts.find(item => item.type === type)?.value);
+    const wall = new Date(0);
+    wall.setUTCFullYear(part('year'), part('month') - 1, part('day'));
+    wall.setUTCHours(part('hour'), part('minute'), part('second'));
+    return Math.round((wall.getTime() - Math.floor(time / 1000) * 1000) / 6e4);
+};
+
+/**
+ * Falióra szerinti idő átváltása valódi időpontra
+ * @param {number} wall - falióra szerinti idő UTC-ként tárolva (ms)
+ * @param {string} [timezone] - IANA időzóna azonosító (alapértelmezett: helyi időzóna)
+ * @return {number} időpont (ms)
+ * @description
+ *  Nem létező időpont (óraátállítás előre) esetén az átállítás utáni időt adja,
+ *  kétszer előforduló időpont (óraátállítás vissza) esetén a későbbit.
+ *  Az egy nappal korábbi és későbbi eltéréssel számolt időpontok közül azok jöhetnek szóba, amelyeknél a falióra
+ *  valóban a megadott időt mutatja; ha egyik sem ilyen, az idő az átállítás előtti eltéréssel az átállítás utánra esik.
+ */
+const wallToTime = function(wall: number, timezone?: string): number {
+    const before = getTimezoneOffset(wall - 864e5, timezone);
+    const after = getTimezoneOffset(wall + 864e5, timezone);
+    const candidates = [wall - before * 6e4, wall - after * 6e4]
+        .filter(time => time + getTimezoneOffset(time, timezone) * 6e4 === wall);
+    return candidates.length ? Math.max(...candidates) : wall - before * 6e4;
+};
+
+/**
+ * Időzóna rövidítése (pl. CET, CEST, EDT, BST), ha nincs ilyen, akkor PHP-hoz hasonlóan az eltérés (pl. +09, +0530)
+ * @param {number} time - időpont (ms)
+ * @param {string} timezone - IANA időzóna azonosító
+ * @param {number} offset - eltérés percben
+ * @return {string}
+ */
+const getTimezoneAbbreviation = function(time: number, timezone: string, offset: number): string {
+    for (const locale of ['en-US', 'en-GB']) {
+        const name = new Intl.DateTimeFormat(locale, { timeZone: timezone, timeZoneName: 'short' })
+            .formatToParts(time)
+            .find(part => part.type === 'timeZoneName')?.value;
+        if (name && !/^GMT[+-]/.test(name)) {
+            return name;
+        }
+    }
+    const abs = Math.abs(offset);
+    const minutes = abs % 60 ? String(abs % 60).padStart(2, '0') : '';
+    return `${offset < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}${minutes}`;
+};
+
+/**
+ * Formátumleíró nyelvek
+ * @description
+ *  php: PHP date() (pl. 'Y-m-d H:i')
+ *  strftime: C/POSIX strftime() (pl. '%Y-%m-%d %H:%M')
+ *  ldml: ICU/Unicode LDML (pl. "yyyy-MM-dd HH:mm")
+ *  intl: Intl.DateTimeFormat előre definiált beállításai (a formátum a beállítás neve, pl. 'short')
+ */
+export type FormatDialect = 'php' | 'strftime' | 'ldml' | 'intl';
+
+/**
+ * A format() beállításai
+ * @description
+ *  timezone: IANA időzóna azonosító, pl. 'Europe/Budapest' (alapértelmezett: helyi időzóna)
+ *  locale: a napok és hónapok nevének nyelve, lásd getLocale() (alapértelmezett: 'en')
+ *  dialect: a formátum nyelve (alapértelmezett: 'php')
+ */
+export interface FormatOptions {
+    timezone?: string;
+    locale?: string;
+    dialect?: FormatDialect;
+}
+
+/**
+ * Lefordított formátum egy eleme: szövegkonstans vagy PHP formázókarakter
+ * @description
+ *  width, fill: a karakter értékét számként újra kitölti (pl. szóközzel kitöltött nap)
+ *  offset: az értékhez hozzáadott szám (pl. 1-től számozott napok az évben)
+ */
+interface FormatSegment {
+    literal?: string;
+    token?: string;
+    width?: number;
+    fill?: string;
+    offset?: number;
+}
+
+/**
+ * A PHP date() formázókarakterei
+ * @type {string}
+ */
+const phpTokens = 'dDjlNSwzWFmMntLoYyaABgGhHisuveIOPTZcrU';
+
+/**
+ * Az összetett PHP formázókarakterek kifejtése
+ * @type {Object}
+ */
+const phpExpansions: Record<string, string> = { c: 'Y-m-d\\TH:i:sP', r: 'D, d M Y H:i:s O' };
+
+/**
+ * Formázókarakterek PHP megfelelői
+ * @type {Object}
+ * @description
+ *  Egy karakterhez több elem is tartozhat (pl. %F = Y-m-d), visszafordításkor az első egyező karakter érvényes.
+ */
+const dialectTokens: Record<'strftime' | 'ldml', Record<string, FormatSegment[]>> = {
+    strftime: {
+        a: [{ token: 'D' }],
+        A: [{ token: 'l' }],
+        b: [{ token: 'M' }],
+        h: [{ token: 'M' }],
+        B: [{ token: 'F' }],
+        c: [
+            { token: 'D' }, { literal: ' ' }, { token: 'M' }, { literal: ' ' }, { token: 'j', width: 2, fill: ' ' },
+            { literal: ' ' }, { token: 'H' }, { literal: ':' }, { token: 'i' }, { literal: ':' }, { token: 's' },
+            { literal: ' ' }, { token: 'Y' }
+        ],
+        d: [{ token: 'd' }],
+        '-d': [{ token: 'j' }],
+        D: [{ token: 'm' }, { literal: '/' }, { token: 'd' }, { literal: '/' }, { token: 'y' }],
+        e: [{ token: 'j', width: 2, fill: ' ' }],
+        F: [{ token: 'Y' }, { literal: '-' }, { token: 'm' }, { literal: '-' }, { token: 'd' }],
+        G: [{ token: 'o' }],
+        H: [{ token: 'H' }],
+        '-H': [{ token: 'G' }],
+        I: [{ token: 'h' }],
+        '-I': [{ token: 'g' }],
+        j: [{ token: 'z', width: 3, fill: '0', offset: 1 }],
+        '-j': [{ token: 'z', width: 1, fill: '0', offset: 1 }],
+        k: [{ token: 'G', width: 2, fill: ' ' }],
+        l: [{ token: 'g', width: 2, fill: ' ' }],
+        m: [{ token: 'm' }],
+        '-m': [{ token: 'n' }],
+        M: [{ token: 'i' }],
+        '-M': [{ token: 'i', width: 1, fill: '0' }],
+        n: [{ literal: '\n' }],
+        p: [{ token: 'A' }],
+        P: [{ token: 'a' }],
+        r: [
+            { token: 'h' }, { literal: ':' }, { token: 'i' }, { literal: ':' }, { token: 's' }, { literal: ' ' }, { token: 'A' }
+        ],
+        R: [{ token: 'H' }, { literal: ':' }, { token: 'i' }],
+        s: [{ token: 'U' }],
+        S: [{ token: 's' }],
+        '-S': [{ token: 's', width: 1, fill: '0' }],
+        t: [{ literal: '\t' }],
+        T: [{ token: 'H' }, { literal: ':' }, { token: 'i' }, { literal: ':' }, { token: 's' }],
+        u: [{ token: 'N' }],
+        V: [{ token: 'W' }],
+        w: [{ token: 'w' }],
+        x: [{ token: 'm' }, { literal: '/' }, { token: 'd' }, { literal: '/' }, { token: 'y' }],
+        X: [{ token: 'H' }, { literal: ':' }, { token: 'i' }, { literal: ':' }, { token: 's' }],
+        y: [{ token: 'y' }],
+        Y: [{ token: 'Y' }],
+        z: [{ token: 'O' }],
+        Z: [{ token: 'T' }],
+        '%': [{ literal: '%' }]
+    },
+    ldml: {
+        yyyy: [{ token: 'Y' }],
+        y: [{ token: 'Y' }],
+        yy: [{ token: 'y' }],
+        YYYY: [{ token: 'o' }],
+        Y: [{ token: 'o' }],
+        M: [{ token: 'n' }],
+        MM: [{ token: 'm' }],
+        MMM: [{ token: 'M' }],
+        MMMM: [{ token: 'F' }],
+        L: [{ token: 'n' }],
+        LL: [{ token: 'm' }],
+        LLL: [{ token: 'M' }],
+        LLLL: [{ token: 'F' }],
+        ww: [{ token: 'W' }],
+        w: [{ token: 'W', width: 1, fill: '0' }],
+        d: [{ token: 'j' }],
+        dd: [{ token: 'd' }],
+        D: [{ token: 'z', width: 1, fill: '0', offset: 1 }],
+        DDD: [{ token: 'z', width: 3, fill: '0', offset: 1 }],
+        EEE: [{ token: 'D' }],
+        E: [{ token: 'D' }],
+        EE: [{ token: 'D' }],
+        EEEE: [{ token: 'l' }],
+        ccc: [{ token: 'D' }],
+        cccc: [{ token: 'l' }],
+        a: [{ token: 'A' }],
+        h: [{ token: 'g' }],
+        hh: [{ token: 'h' }],
+        H: [{ token: 'G' }],
+        HH: [{ token: 'H' }],
+        m: [{ token: 'i', width: 1, fill: '0' }],
+        mm: [{ token: 'i' }],
+        s: [{ token: 's', width: 1, fill: '0' }],
+        ss: [{ token: 's' }],
+        SSS: [{ token: 'v' }],
+        SSSSSS: [{ token: 'u' }],
+        xx: [{ token: 'O' }],
+        xxx: [{ token: 'P' }],
+        XX: [{ token: 'O' }],
+        XXX: [{ token: 'P' }],
+        Z: [{ token: 'O' }],
+        ZZ: [{ token: 'O' }],
+        ZZZ: [{ token: 'O' }],
+        ZZZZZ: [{ token: 'P' }],
+        z: [{ token: 'T' }],
+        zz: [{ token: 'T' }],
+        zzz: [{ token: 'T' }],
+        VV: [{ token: 'e' }]
+    }
+};
+
+/**
+ * Intl.DateTimeFormat előre definiált beállításai (intl dialektus)
+ * @type {Object}
+ */
+const intlPresets: Record<string, Intl.DateTimeFormatOptions> = {
+    short: { dateStyle: 'short', timeStyle: 'short' },
+    medium: { dateStyle: 'medium', timeStyle: 'medium' },
+    long: { dateStyle: 'long', timeStyle: 'long' },
+    full: { dateStyle: 'full', timeStyle: 'full' },
+    'date-short': { dateStyle: 'short' },
+    'date-medium': { dateStyle: 'medium' },
+    'date-long': { dateStyle: 'long' },
+    'date-full': { dateStyle: 'full' },
+    'time-short': { timeStyle: 'short' },
+    'time-medium': { timeStyle: 'medium' },
+    'time-long': { timeStyle: 'long' },
+    'time-full': { timeStyle: 'full' }
+};
+
+/**
+ * Formátum felbontása elemekre
+ * @param {string} form - formátum
+ * @param {FormatDialect} dialect - a formátum nyelve (intl kivételével)
+ * @return {array<FormatSegment>}
+ * @description
+ *  Szövegkonstansok jelölése: php: \Y, strftime: %%, ldml: 'text' (aposztróf: '')
+ */
+const compileFormat = function(form: string, dialect: Exclude<FormatDialect, 'intl'>): FormatSegment[] {
+    const segments: FormatSegment[] = [];
+    const unsupported = function(token: string): Error {
+        return new Error(`Unsupported ${dialect} token: ${token}`);
+    };
+    if (dialect === 'php') {
+        for (const [chunk, chr] of form.matchAll(/\\?(.?)/g)) {
+            segments.push(chunk.length === 1 && phpTokens.includes(chr) ? { token: chr } : { literal: chr });
+        }
+    }
+    else if (dialect === 'strftime') {
+        for (const [chunk, directive] of form.matchAll(/%(-?.)|[^%]+|%$/g)) {
+            if (directive === undefined) {
+                segments.push({ literal: chunk === '%' ? '' : chunk });
+                continue;
+            }
+            const mapped = dialectTokens.strftime[directive];
+            if (!mapped) {
+                throw unsupported(chunk);
+            }
+            segments.push(...mapped);
+        }
+    }
+    else {
+        for (const [chunk] of form.matchAll(/'(?:[^']|'')*'?|([A-Za-z])\1*|[^A-Za-z']+/g)) {
+            if (chunk.startsWith('\'')) {
+                segments.push({ literal: chunk === '\'\'' ? '\'' : chunk.replace(/^'|'$/g, '').replace(/''/g, '\'') });
+                continue;
+            }
+            if (!/^[A-Za-z]/.test(chunk)) {
+                segments.push({ literal: chunk });
+                continue;
+            }
+            const mapped = dialectTokens.ldml[chunk];
+            if (!mapped) {
+                throw unsupported(chunk);
+            }
+            segments.push(...mapped);
+        }
+    }
+    return segments;
+};
+
+/**
+ * Formátum fordítása egyik nyelvről a másikra
+ * @param {string} form - formátum
+ * @param {FormatDialect} from - a formátum nyelve
+ * @param {FormatDialect} to - a cél nyelv
+ * @return {string}
+ * @description
+ *  Ha egy elemnek nincs megfelelője a cél nyelvben, Error-t dob. A PHP c és r karakterei kifejtve fordulnak le.
+ * @example
+ *  translateFormat('yyyy-MM-dd HH:mm', 'ldml', 'php'); // 'Y-m-d H:i'
+ *  translateFormat('Y-m-d\\TH:i', 'php', 'strftime'); // '%Y-%m-%dT%H:%M'
+ */
+export const translateFormat = function(form: string, from: FormatDialect, to: FormatDialect): string {
+    if (from === 'intl' || to === 'intl') {
+        throw new Error('Intl presets cannot be translated');
+    }
+    const same = (a: FormatSegment, b: FormatSegment): boolean => a.token === b.token &&
+        a.width === b.width && (a.fill ?? '0') === (b.fill ?? '0') && (a.offset ?? 0) === (b.offset ?? 0);
+    const escape: Record<Exclude<FormatDialect, 'intl'>, (text: string) => string> = {
+        php: (text) => text.replace(new RegExp(`[\\\\${phpTokens}]`, 'g'), '\\$&'),
+        strftime: (text) => text.replace(/%/g, '%%'),
+        ldml: (text) => text.replace(/[A-Za-z]+|'/g, (part) => part === '\'' ? '\'\'' : `'${part}'`)
+    };
+    const translate = function(segment: FormatSegment): string {
+        if (segment.token === undefined) {
+            return escape[to](segment.literal ?? '');
+        }
+        if (to === 'php' && segment.width === undefined) {
+            return segment.token;
+        }
+        if (to !== 'php') {
+            const entry = Object.entries(dialectTokens[to]).find(
+                ([, mapped]) => mapped.length === 1 && same(mapped[0], segment)
+            );
+            if (entry) {
+                return to === 'strftime' ? `%${entry[0]}` : entry[0];
+            }
+        }
+        if (phpExpansions[segment.token] && segment.width === undefined) {
+            return compileFormat(phpExpansions[segment.token], 'php').map(translate).join('');
+        }
+        throw new Error(`Token ${segment.token} has no ${to} equivalent`);
+    };
+    const segments = compileFormat(form, from).reduce(
+        (merged: FormatSegment[], segment) => {
+            const last = merged[merged.length - 1];
+            if (last?.literal !== undefined && segment.literal !== undefined) {
+                last.literal += segment.literal;
+            }
+            else {
+                merged.push({ ...segment });
+            }
+            return merged;
+        },
+        []
+    );
+    return segments.map(translate).join('');
+};
+
 /**
  * A PHP date() függvényének implementációja
  * @copyright http://phpjs.org/functions/date (módosított ES2015 + typescript)
  * @param {string} form
  * @param {number} timestamp
+ * @param {FormatOptions} [options] - beállítások
  * @return {string}
+ * @description
+ *  A formátum a dialect beállítás szerint PHP date(), strftime() vagy LDML minta, illetve Intl előbeállítás neve lehet.
+ * @example
+ *  format('Y-m-d H:i T', timestamp, { timezone: 'America/New_York' });
+ *  format('Y. F j., l', timestamp, { locale: 'hu' }); // 2026. október 19., hétfő
+ *  format('%Y-%m-%d %H:%M', timestamp, { dialect: 'strftime' });
+ *  format("d MMMM yyyy 'at' HH:mm", timestamp, { dialect: 'ldml' });
+ *  format('date-long', timestamp, { dialect: 'intl', locale: 'hu' });
  */
-export const format = function(form: string, timestamp: number): string {
+export const format = function(form: string, timestamp: number, options: FormatOptions = {}): string {
     let jsdate: Date;
-    // Keep this here (works, but for code commented-out below for file size reasons)
-    // var tal= [];
-    const txt_words = [
-        'Sun', 'Mon', 'Tues', 'Wednes', 'Thurs', 'Fri', 'Satur',
-        'January', 'February', 'March', 'April', 'May', 'June',
-        'July', 'August', 'September', 'October', 'November', 'December'
-    ];
+    // a célidőzóna falióra szerinti ideje UTC-ként tárolva (getUTC* metódusokkal olvasandó)
+    let wall: Date;
+    // eltérés az UTC-től percben
+    let offset: number;
+    const locale = getLocale(options.locale ?? 'en');
     // trailing backslash -> (dropped)
     // a backslash followed by any character (including backslash) -> the character
     // empty string -> empty string
@@ -40,15 +547,15 @@ export const format = function(form: string, timestamp: number): string {
         },
         D: function() {
             // Shorthand day name; Mon...Sun
-            return f.l().slice(0, 3);
+            return locale.daysShort[f.w()];
         },
         j: function() {
             // Day of month; 1..31
-            return jsdate.getDate();
+            return wall.getUTCDate();
         },
         l: function() {
             // Full day name; Monday...Sunday
-            return `${txt_words[f.w()]}day`;
+            return locale.days[f.w()];
         },
         N: function() {
             // ISO-8601 day of week; 1[Mon]..7[Sun]
@@ -56,30 +563,23 @@ export const format = function(form: string, timestamp: number): string {
         },
         S: function() {
             // Ordinal suffix for day of month; st, nd, rd, th
-            const j = f.j();
-            let i = j % 10;
-            if (i <= 3 && Number((j % 100) / 10) === 1){
-                i = 0;
-            }
-            return ['st', 'nd', 'rd'][i - 1] || 'th';
+            return locale.ordinal(f.j());
         },
         w: function() {
             // Day of week; 0[Sun]..6[Sat]
-            return jsdate.getDay();
+            return wall.getUTCDay();
         },
         z: function() {
             // Day of year; 0..365
-            const a = new Date(Number(f.Y()), f.n() - 1, f.j());
-            const b = new Date(Number(f.Y()), 0, 1);
-            return Math.round((a.getTime() - b.getTime()) / 864e5);
+            const a = Date.UTC(Number(f.Y()), f.n() - 1, f.j());
+            const b = Date.UTC(Number(f.Y()), 0, 1);
+            return Math.round((a - b) / 864e5);
         },
 
         // Week
         W: function() {
             // ISO-8601 week number
-            const a = new Date(Number(f.Y()), f.n() - 1, f.j() - f.N() + 3);
-            const b = new Date(a.getFullYear(), 0, 4);
-            return _pad(1 + Math.round((a.getTime() - b.getTime()) / 864e5 / 7), 2);
+            return _pad(getIsoWeek(Number(f.Y()), f.n(), f.j())[1], 2);
         },
 
         // Month
@@ -88,7 +588,7 @@ export const format = function(form: string, timestamp: number): string {
          */
         F: function() {
             // Full month name; January...December
-            return txt_words[6 + f.n()];
+            return locale.months[f.n() - 1];
         },
         m: function() {
             // Month w/leading 0; 01...12
@@ -99,15 +599,15 @@ export const format = function(form: string, timestamp: number): string {
          */
         M: function() {
             // Shorthand month name; Jan...Dec
-            return f.F().slice(0, 3);
+            return locale.monthsShort[f.n() - 1];
         },
         n: function() {
             // Month; 1...12
-            return jsdate.getMonth() + 1;
+            return wall.getUTCMonth() + 1;
         },
         t: function() {
             // Days in month; 28...31
-            return (new Date(Number(f.Y()), f.n(), 0)).getDate();
+            return daysInMonth(Number(f.Y()), f.n());
         },
 
         // Year
@@ -116,32 +616,18 @@ export const format = function(form: string, timestamp: number): string {
          */
         L: function() {
             // Is leap year?; 0 or 1
-            const j = Number(f.Y());
-            return (j % 4 === 0 && j % 100 !== 0 || j % 400 === 0) ? 1 : 0;
+            return isLeapYear(Number(f.Y())) ? 1 : 0;
         },
         o: function() {
             // ISO-8601 year
-            const n = f.n();
-            const W = Number(f.W());
-            const Y = f.Y();
-            let y;
-            if (n === 12 && W < 9){
-                y = 1;
-            }
-            else if (n === 1 && W > 9){
-                y = -1;
-            }
-            else {
-                y = 0;
-            }
-            return String(Y + y);
+            return String(getIsoWeek(Number(f.Y()), f.n(), f.j())[0]);
         },
         /**
          * @return {String}
          */
         Y: function() {
             // Full year; e.g. 1980...2010
-            return String(jsdate.getFullYear());
+            return String(wall.getUTCFullYear());
         },
         y: function() {
             // Last two digits of year; 00...99
@@ -151,7 +637,7 @@ export const format = function(form: string, timestamp: number): string {
         // Time
         a: function() {
             // am or pm
-            return jsdate.getHours() > 11 ? 'pm' : 'am';
+            return wall.getUTCHours() > 11 ? 'pm' : 'am';
         },
         /**
          * @return {String}
@@ -179,7 +665,7 @@ export const format = function(form: string, timestamp: number): string {
          */
         G: function() {
             // 24-Hours; 0..23
-            return String(jsdate.getHours());
+            return String(wall.getUTCHours());
         },
         h: function() {
             // 12-Hours w/leading 0; 01..12
@@ -191,51 +677,43 @@ export const format = function(form: string, timestamp: number): string {
         },
         i: function() {
             // Minutes w/leading 0; 00..59
-            return _pad(jsdate.getMinutes(), 2);
+            return _pad(wall.getUTCMinutes(), 2);
         },
         s: function() {
             // Seconds w/leading 0; 00..59
-            return _pad(jsdate.getSeconds(), 2);
+            return _pad(wall.getUTCSeconds(), 2);
         },
         u: function() {
             // Microseconds; 000000-999000
-            return _pad(jsdate.getMilliseconds() * 1000, 6);
+            return _pad(wall.getUTCMilliseconds() * 1000, 6);
+        },
+        v: function() {
+            // Milliseconds; 000-999
+            return _pad(wall.getUTCMilliseconds(), 3);
         },
 
         // Timezone
         e: function() {
             // Timezone identifier; e.g. Atlantic/Azores, ...
-            // The following works, but requires inclusion of the very large
-            // timezone_abbreviations_list() function.
-            /*                            return This.date_default_timezone_get();
-                */
-            throw new Error('Not supported (see source code of date() for timezone on how to add support)');
+            return options.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
         },
         /**
          * @return {String}
          */
         I: function() {
             // DST observed?; 0 or 1
-            // Compares Jan 1 minus Jan 1 UTC to Jul 1 minus Jul 1 UTC.
-            // If they are not equal, then DST is observed.
-            const a = new Date(Number(f.Y()), 0);
-            // Jan 1
-            const c = Date.UTC(Number(f.Y()), 0);
-            // Jan 1 UTC
-            const b = new Date(Number(f.Y()), 6);
-            // Jul 1
-            // Jul 1 UTC
-            const d = Date.UTC(Number(f.Y()), 6);
-            return String(((a.getTime() - c) !== (b.getTime() - d)) ? 1 : 0);
+            // Compares the current offset to the standard (smaller) one of Jan 1 and Jul 1.
+            const jan = getTimezoneOffset(Date.UTC(Number(f.Y()), 0), options.timezone);
+            const jul = getTimezoneOffset(Date.UTC(Number(f.Y()), 6), options.timezone);
+            return String(offset > Math.min(jan, jul) ? 1 : 0);
         },
         /**
          * @return {String}
          */
         O: function() {
             // Difference to GMT in hour format; e.g. +0200
-            const tzo = jsdate.getTimezoneOffset();
-            const a = Math.abs(tzo);
-            return (tzo > 0 ? '-' : '+') + _pad(Math.floor(a / 60) * 100 + a % 60, 4);
+            const a = Math.abs(offset);
+            return (offset < 0 ? '-' : '+') + _pad(Math.floor(a / 60) * 100 + a % 60, 4);
         },
         /**
          * @return {String}
@@ -250,39 +728,14 @@ export const format = function(form: string, timestamp: number): string {
          */
         T: function() {
             // Timezone abbreviation; e.g. EST, MDT, ...
-            // The following works, but requires inclusion of the very
-            // large timezone_abbreviations_list() function.
-            /*                            var abbr, i, os, _default;
-                if (!tal.length) {
-                tal = This.timezone_abbreviations_list();
-                }
-                if (This.php_js && This.php_js.default_timezone) {
-                _default = This.php_js.default_timezone;
-                for (abbr in tal) {
-                for (i = 0; i < tal[abbr].length; i++) {
-                if (tal[abbr][i].timezone_id === _default) {
-                return abbr.toUpperCase();
-                }
-                }
-                }
-                }
-                for (abbr in tal) {
-                for (i = 0; i < tal[abbr].length; i++) {
-                os = -jsdate.getTimezoneOffset() * 60;
-                if (tal[abbr][i].offset === os) {
-                return abbr.toUpperCase();
-                }
-                }
-                }
-                */
-            return 'UTC';
+            return getTimezoneAbbreviation(jsdate.getTime(), f.e(), offset);
         },
         /**
          * @return {String}
          */
         Z: function() {
             // Timezone offset in seconds (-43200...50400)
-            return String(-jsdate.getTimezoneOffset() * 60);
+            return String(offset * 60);
         },
 
         // Full Date/Time
@@ -312,7 +765,949 @@ export const format = function(form: string, timestamp: number): string {
         else {
             jsdate = new Date(stamp * 1000); // UNIX timestamp (auto-convert to int)
         }
+        offset = getTimezoneOffset(jsdate.getTime(), options.timezone);
+        wall = new Date(jsdate.getTime() + offset * 6e4);
+        if (options.dialect === 'intl') {
+            if (!intlPresets[formatting]) {
+                throw new Error(`Unknown Intl preset: ${formatting}`);
+            }
+            return new Intl.DateTimeFormat(options.locale ?? 'en', {
+                ...intlPresets[formatting],
+                timeZone: options.timezone
+            }).format(jsdate);
+        }
+        if (options.dialect && options.dialect !== 'php') {
+            return compileFormat(formatting, options.dialect).map((segment) => {
+                if (segment.token === undefined) {
+                    return segment.literal;
+                }
+                const value = String(f[segment.token as keyof typeof f]());
+                if (segment.width === undefined) {
+                    return value;
+                }
+                return String(Number(value) + (segment.offset ?? 0)).padStart(segment.width, segment.fill);
+            }).join('');
+        }
         return formatting.replace(formatChr, formatChrCb);
     };
     return date(form, timestamp);
 };
+
+/**
+ * Sikertelen dátumfeldolgozás leírása
+ * @description
+ *  token: a hibát okozó formázókarakter (null, ha a bemenet végén maradt feldolgozatlan szöveg)
+ *  position: a hiba helye a bemeneti szövegben
+ */
+export interface DateParseError {
+    type: 'parse';
+    message: string;
+    token: string | null;
+    position: number;
+}
+
+/**
+ * Feldolgozás közben összegyűjtött dátumrészek
+ */
+interface ParsedParts {
+    year?: number;
+    month?: number;
+    day?: number;
+    hour?: number;
+    hour12?: number;
+    meridiem?: 'am' | 'pm';
+    minute?: number;
+    second?: number;
+    millisecond?: number;
+    offset?: number;
+    timestamp?: number;
+}
+
+type ParsedField = keyof ParsedParts;
+
+interface TokenParser {
+    pattern: RegExp;
+    field: ParsedField | null;
+    convert: (value: string) => number | string;
+}
+
+const nameAlternation = function(names: string[]): string {
+    return [...new Set(names)]
+        .sort((a, b) => b.length - a.length)
+        .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('|');
+};
+
+const nameParser = function(names: string[], field: ParsedField | null): TokenParser {
+    return {
+        pattern: new RegExp(nameAlternation(names), 'iy'),
+        field,
+        convert: (value) => names.findIndex(name => name.toLowerCase() === value.toLowerCase()) + 1
+    };
+};
+
+/**
+ * Nyelvenként a nevekből álló formázókarakterek feldolgozói
+ * @type {WeakMap<DateLocale, Object>}
+ */
+const nameParsers = new WeakMap<DateLocale, Record<string, TokenParser>>();
+
+const getNameParsers = function(locale: DateLocale): Record<string, TokenParser> {
+    let parsers = nameParsers.get(locale);
+    if (!parsers) {
+        const suffixes = Array.from({ length: 31 }, (_value, index) => locale.ordinal(index + 1)).filter(Boolean);
+        parsers = {
+            D: nameParser(locale.daysShort, null),
+            l: nameParser(locale.days, null),
+            S: nameParser(suffixes, null),
+            M: nameParser(locale.monthsShort, 'month'),
+            F: nameParser(locale.months, 'month')
+        };
+        nameParsers.set(locale, parsers);
+    }
+    return parsers;
+};
+
+const parseOffset = function(value: string): number {
+    const sign = value[0] === '-' ? -1 : 1;
+    const digits = value.slice(1).replace(':', '');
+    return sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2, 4)));
+};
+
+/**
+ * A parse() által ismert, nyelvtől független formázókarakterek
+ * @type {Object}
+ */
+const tokenParsers: Record<string, TokenParser> = {
+    d: { pattern: /\d{2}/y, field: 'day', convert: Number },
+    j: { pattern: /\d{1,2}/y, field: 'day', convert: Number },
+    m: { pattern: /\d{2}/y, field: 'month', convert: Number },
+    n: { pattern: /\d{1,2}/y, field: 'month', convert: Number },
+    Y: { pattern: /-?\d{1,4}/y, field: 'year', convert: Number },
+    y: { pattern: /\d{2}/y, field: 'year', convert: (value) => Number(value) + (Number(value) < 70 ? 2000 : 1900) },
+    a: { pattern: /am|pm/y, field: 'meridiem', convert: String },
+    A: { pattern: /AM|PM/y, field: 'meridiem', convert: (value) => value.toLowerCase() },
+    g: { pattern: /\d{1,2}/y, field: 'hour12', convert: Number },
+    h: { pattern: /\d{2}/y, field: 'hour12', convert: Number },
+    G: { pattern: /\d{1,2}/y, field: 'hour', convert: Number },
+    H: { pattern: /\d{2}/y, field: 'hour', convert: Number },
+    i: { pattern: /\d{2}/y, field: 'minute', convert: Number },
+    s: { pattern: /\d{2}/y, field: 'second', convert: Number },
+    u: { pattern: /\d{6}/y, field: 'millisecond', convert: (value) => Math.floor(Number(value) / 1000) },
+    O: { pattern: /[+-]\d{4}/y, field: 'offset', convert: parseOffset },
+    P: { pattern: /[+-]\d{2}:\d{2}/y, field: 'offset', convert: parseOffset },
+    U: { pattern: /-?\d+(\.\d+)?/y, field: 'timestamp', convert: Number }
+};
+
+/**
+ * Dátumrészek érvényes tartományai (a nap felső határa hónaponként változik)
+ * @type {Object}
+ */
+const fieldRanges: Partial<Record<ParsedField, [number, number]>> = {
+    month: [1, 12],
+    day: [1, 31],
+    hour: [0, 23],
+    hour12: [1, 12],
+    minute: [0, 59],
+    second: [0, 59]
+};
+
+/**
+ * A format() inverze: dátum szövegének feldolgozása a PHP date() formázókaraktereivel
+ * @param {string} form - formátum (ugyanaz, mint a format()-nál)
+ * @param {string} input - feldolgozandó szöveg
+ * @param {FormatOptions} [options] - beállítások (ugyanazok, mint a format()-nál)
+ * @return {number | DateParseError} UNIX timestamp vagy a hiba leírása
+ * @description
+ *  Támogatott karakterek: d, j, D, l, S, m, n, M, F, Y, y, a, A, g, h, G, H, i, s, u, O, P, U, valamint a kifejtett c és r.
+ *  A többi formázókarakter (pl. N, w, z, W, T, e) nem olvasható vissza, ezekre hibát ad.
+ *  A megadott dátumrésznél kisebb hiányzó dátumrészek 1-ek (az 'Y-m' a hónap, az 'Y' az év első napja), ha pedig
+ *  egyik dátumrész sincs megadva, a mai napból származnak. A hiányzó időrészek nullából származnak.
+ *  O vagy P hiányában a szöveget a megadott (alapértelmezetten a helyi) időzóna szerint értelmezi.
+ * @example
+ *  const timestamp = parse('Y-m-d H:i', '2023-10-16 08:30');
+ *  if (typeof timestamp !== 'number') {
+ *      console.warn(timestamp.message, timestamp.token, timestamp.position);
+ *  }
+ */
+export const parse = function(form: string, input: string, options: FormatOptions = {}): number | DateParseError {
+    const formatChr = /\\?(.?)/gi;
+    const parsers = { ...tokenParsers, ...getNameParsers(getLocale(options.locale ?? 'en')) };
+    const parts: ParsedParts = {};
+    const sources: Partial<Record<ParsedField, { token: string, position: number }>> = {};
+    let position = 0;
+    let match: RegExpExecArray | null;
+
+    const error = function(message: string, token: string | null, at: number): DateParseError {
+        return { type: 'parse', message, token, position: at };
+    };
+
+    // a c és r kifejtve, így a format('c', ...) eredménye is visszaolvasható
+    const expanded = form.replace(formatChr, (chunk: string, chr: string) => (chunk.length === 1 && phpExpansions[chr]) || chunk);
+    while ((match = formatChr.exec(expanded)) !== null && match[0] !== '') {
+        const [chunk, chr] = match;
+        const parser = chunk.length === 1 ? parsers[chr] : undefined;
+        if (!parser) {
+            if (chr === '') {
+                continue;
+            }
+            if (chunk.length === 1 && phpTokens.includes(chr)) {
+                return error(`Unsupported format token: ${chr}`, chr, position);
+            }
+            if (input[position] !== chr) {
+                return error(`Expected '${chr}'`, null, position);
+            }
+            position += chr.length;
+            continue;
+        }
+        parser.pattern.lastIndex = position;
+        const value = parser.pattern.exec(input);
+        if (!value) {
+            return error(`Unable to parse '${chr}'`, chr, position);
+        }
+        if (parser.field) {
+            (parts[parser.field] as number | string) = parser.convert(value[0]);
+            sources[parser.field] = { token: chr, position };
+        }
+        position += value[0].length;
+    }
+    if (position < input.length) {
+        return error('Unexpected trailing characters', null, position);
+    }
+
+    if (typeof parts.timestamp === 'number') {
+        return parts.timestamp;
+    }
+
+    for (const [field, [min, max]] of Object.entries(fieldRanges) as [ParsedField, [number, number]][]) {
+        const value = parts[field] as number | undefined;
+        if (typeof value === 'number' && (value < min || value > max)) {
+            const source = sources[field] as { token: string, position: number };
+            return error(`Value out of range: ${value}`, source.token, source.position);
+        }
+    }
+
+    const now = Date.now();
+    const today = new Date(now + getTimezoneOffset(now, options.timezone) * 6e4);
+    // a megadott dátumrésznél kisebb hiányzó részek az időszak elejére esnek (pl. 'Y-m' a hónap első napja)
+    const year = parts.year ?? today.getUTCFullYear();
+    const month = parts.month ?? (typeof parts.year === 'number' ? 1 : today.getUTCMonth() + 1);
+    const day = parts.day ?? (typeof parts.year === 'number' || typeof parts.month === 'number' ? 1 : today.getUTCDate());
+    let hour = parts.hour ?? 0;
+    if (typeof parts.hour12 === 'number') {
+        hour = parts.hour12 % 12 + (parts.meridiem === 'pm' ? 12 : 0);
+    }
+    else if (parts.meridiem === 'pm' && hour < 12) {
+        hour += 12;
+    }
+
+    if (day > daysInMonth(year, month)) {
+        const source = sources.day ?? sources.month ?? sources.year;
+        return error(`Invalid day of month: ${day}`, source?.token ?? null, source?.position ?? 0);
+    }
+
+    const wall = new Date(0);
+    wall.setUTCFullYear(year, month - 1, day);
+    wall.setUTCHours(hour, parts.minute ?? 0, parts.second ?? 0, parts.millisecond ?? 0);
+    if (typeof parts.offset === 'number') {
+        return (wall.getTime() - parts.offset * 6e4) / 1000;
+    }
+    return wallToTime(wall.getTime(), options.timezone) / 1000;
+};
+
+/**
+ * Időtartam naptári és időegységekben (add() és sub() paramétere)
+ */
+export interface DateDuration {
+    years?: number;
+    months?: number;
+    weeks?: number;
+    days?: number;
+    hours?: number;
+    minutes?: number;
+    seconds?: number;
+}
+
+/**
+ * Két időpont különbsége (a PHP DateInterval megfelelője)
+ * @description
+ *  y, m, d, h, i, s: évek, hónapok, napok, órák, percek, másodpercek
+ *  f: a másodperc törtrésze
+ *  invert: 1, ha a különbség negatív
+ *  days: a teljes napok száma
+ */
+export interface DateInterval {
+    y: number;
+    m: number;
+    d: number;
+    h: number;
+    i: number;
+    s: number;
+    f: number;
+    invert: 0 | 1;
+    days: number;
+}
+
+/**
+ * Naptári egységek (startOf() és endOf() paramétere)
+ * @description
+ *  week: ISO-8601 szerinti hét (hétfőtől vasárnapig)
+ */
+export type CalendarUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+/**
+ * Időpont falióra szerinti ideje az adott időzónában, UTC-ként tárolva
+ * @param {number} timestamp - UNIX timestamp
+ * @param {string} [timezone] - IANA időzóna azonosító
+ * @return {Date} getUTC* metódusokkal olvasandó
+ */
+export const toWall = function(timestamp: number, timezone?: string): Date {
+    const time = timestamp * 1000;
+    return new Date(time + getTimezoneOffset(time, timezone) * 6e4);
+};
+
+/**
+ * A toWall() inverze
+ * @param {Date} wall - falióra szerinti idő UTC-ként tárolva
+ * @param {string} [timezone] - IANA időzóna azonosító
+ * @return {number} UNIX timestamp
+ * @description
+ *  Nem létező időpont (óraátállítás előre) esetén az átállítás utáni időt adja,
+ *  kétszer előforduló időpont (óraátállítás vissza) esetén a későbbit.
+ */
+export const fromWall = function(wall: Date, timezone?: string): number {
+    return wallToTime(wall.getTime(), timezone) / 1000;
+};
+
+/**
+ * Hónapok hozzáadása falióra szerinti időhöz (a hónap napja a célhónap utolsó napjára csonkolódik)
+ * @param {Date} wall - falióra szerinti idő UTC-ként tárolva
+ * @param {number} months - hónapok száma
+ * @return {Date} új objektum
+ */
+const addMonths = function(wall: Date, months: number): Date {
+    const result = new Date(wall);
+    const totalMonths = wall.getUTCMonth() + months;
+    const year = wall.getUTCFullYear() + Math.floor(totalMonths / 12);
+    const month = (totalMonths % 12 + 12) % 12 + 1;
+    result.setUTCFullYear(year, month - 1, Math.min(wall.getUTCDate(), daysInMonth(year, month)));
+    return result;
+};
+
+/**
+ * Időtartam hozzáadása
+ * @param {number} timestamp - UNIX timestamp
+ * @param {DateDuration} duration - időtartam (negatív értékek is megengedettek)
+ * @param {FormatOptions} [options] - beállítások (timezone)
+ * @return {number} UNIX timestamp
+ * @description
+ *  Az évek, hónapok, hetek és napok a falióra szerint adódnak hozzá (óraátállításkor is megmarad az időpont),
+ *  az órák, percek, másodpercek valódi eltelt időként.
+ *  Ha a hónap napja nem létezik a célhónapban, a hónap utolsó napját adja (jan. 31. + 1 hónap = febr. 28.).
+ * @example
+ *  add(timestamp, { months: 1, days: 2 }, { timezone: 'Europe/Budapest' });
+ */
+export const add = function(timestamp: number, duration: DateDuration, options: FormatOptions = {}): number {
+    const { years = 0, months = 0, weeks = 0, days = 0, hours = 0, minutes = 0, seconds = 0 } = duration;
+    let time = timestamp;
+    if (years || months || weeks || days) {
+        const wall = addMonths(toWall(timestamp, options.timezone), years * 12 + months);
+        wall.setUTCDate(wall.getUTCDate() + weeks * 7 + days);
+        time = fromWall(wall, options.timezone);
+    }
+    return time + hours * 3600 + minutes * 60 + seconds;
+};
+
+/**
+ * Időtartam kivonása
+ * @param {number} timestamp - UNIX timestamp
+ * @param {DateDuration} duration - időtartam
+ * @param {FormatOptions} [options] - beállítások (timezone)
+ * @return {number} UNIX timestamp
+ */
+export const sub = function(timestamp: number, duration: DateDuration, options: FormatOptions = {}): number {
+    const negated = Object.fromEntries(
+        Object.entries(duration).map(([unit, value]) => [unit, -value])
+    ) as DateDuration;
+    return add(timestamp, negated, options);
+};
+
+/**
+ * Naptári egység kezdete
+ * @param {number} timestamp - UNIX timestamp
+ * @param {CalendarUnit} unit - egység
+ * @param {FormatOptions} [options] - beállítások (timezone)
+ * @return {number} UNIX timestamp
+ */
+export const startOf = function(timestamp: number, unit: CalendarUnit, options: FormatOptions = {}): number {
+    const wall = toWall(timestamp, options.timezone);
+    const year = wall.getUTCFullYear();
+    const month = wall.getUTCMonth();
+    wall.setUTCHours(0, 0, 0, 0);
+    if (unit === 'week') {
+        wall.setUTCDate(wall.getUTCDate() - (wall.getUTCDay() || 7) + 1);
+    }
+    else if (unit === 'month') {
+        wall.setUTCFullYear(year, month, 1);
+    }
+    else if (unit === 'quarter') {
+        wall.setUTCFullYear(year, month - month % 3, 1);
+    }
+    else if (unit === 'year') {
+        wall.setUTCFullYear(year, 0, 1);
+    }
+    return fromWall(wall, options.timezone);
+};
+
+/**
+ * Naptári egység vége (az utolsó másodperc kezdete)
+ * @param {number} timestamp - UNIX timestamp
+ * @param {CalendarUnit} unit - egység
+ * @param {FormatOptions} [options] - beállítások (timezone)
+ * @return {number} UNIX timestamp
+ */
+export const endOf = function(timestamp: number, unit: CalendarUnit, options: FormatOptions = {}): number {
+    const durations: Record<CalendarUnit, DateDuration> = {
+        day: { days: 1 },
+        week: { weeks: 1 },
+        month: { months: 1 },
+        quarter: { months: 3 },
+        year: { years: 1 }
+    };
+    return add(startOf(timestamp, unit, options), durations[unit], options) - 1;
+};
+
+/**
+ * Két időpont különbsége (a PHP DateTime::diff() megfelelője)
+ * @param {number} from - UNIX timestamp
+ * @param {number} to - UNIX timestamp
+ * @param {FormatOptions} [options] - beállítások (timezone)
+ * @return {DateInterval}
+ * @description
+ *  A különbséget falióra szerint számolja, a hónapok az add()-hoz hasonlóan csonkolódnak
+ *  (2024. febr. 29. és 2025. febr. 28. között 1 év telik el).
+ * @example
+ *  formatInterval(diff(start, end), '%a nap, %h óra');
+ */
+export const diff = function(from: number, to: number, options: FormatOptions = {}): DateInterval {
+    const invert = to < from ? 1 : 0;
+    const start = toWall(invert ? to : from, options.timezone);
+    const end = toWall(invert ? from : to, options.timezone);
+    // a teljes hónapok száma: ameddig a hónapokkal eltolt kezdőidő nem lépi túl a záróidőt
+    let months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+    if (addMonths(start, months) > end) {
+        months--;
+    }
+    let rest = end.getTime() - addMonths(start, months).getTime();
+    const [d, h, i, s] = [864e5, 36e5, 6e4, 1e3].map(
+        (unit) => {
+            const value = Math.floor(rest / unit);
+            rest -= value * unit;
+            return value;
+        }
+    );
+    return {
+        y: Math.floor(months / 12),
+        m: months % 12,
+        d, h, i, s,
+        f: rest / 1000,
+        invert,
+        days: Math.floor((end.getTime() - start.getTime()) / 864e5)
+    };
+};
+
+/**
+ * Időtartam formázása (a PHP DateInterval::format() megfelelője)
+ * @param {DateInterval} interval - időtartam
+ * @param {string} form - formátum
+ * @return {string}
+ * @description
+ *  %y, %m, %d, %h, %i, %s: évek, hónapok, napok, órák, percek, másodpercek
+ *  %Y, %M, %D, %H, %I, %S: ugyanezek legalább két számjeggyel
+ *  %f, %F: mikroszekundumok (F: hat számjeggyel)
+ *  %a: teljes napok száma
+ *  %R: előjel (+ vagy -), %r: előjel csak negatív esetén
+ *  %%: százalékjel
+ * @example
+ *  formatInterval(interval, '%R%a nap, %H:%I:%S'); // +3 nap, 04:05:06
+ */
+export const formatInterval = function(interval: DateInterval, form: string): string {
+    const _pad = (n: number): string => String(n).padStart(2, '0');
+    const microseconds = Math.round(interval.f * 1e6);
+    const tokens: Record<string, string> = {
+        y: String(interval.y),
+        Y: _pad(interval.y),
+        m: String(interval.m),
+        M: _pad(interval.m),
+        d: String(interval.d),
+        D: _pad(interval.d),
+        h: String(interval.h),
+        H: _pad(interval.h),
+        i: String(interval.i),
+        I: _pad(interval.i),
+        s: String(interval.s),
+        S: _pad(interval.s),
+        f: String(microseconds),
+        F: String(microseconds).padStart(6, '0'),
+        a: String(interval.days),
+        R: interval.invert ? '-' : '+',
+        r: interval.invert ? '-' : '',
+        '%': '%'
+    };
+    return form.replace(/%(.)/g, (chunk: string, chr: string) => tokens[chr] ?? chunk);
+};
+
+/**
+ * Relatív idő egységei
+ */
+export type RelativeTimeUnit = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
+/**
+ * A relative() beállításai
+ * @description
+ *  timezone, locale: ugyanaz, mint a format()-nál (a locale az Intl.RelativeTimeFormat nyelve is)
+ *  style: 'long' | 'short' | 'narrow' (alapértelmezett: 'long')
+ *  numeric: 'always' | 'auto' ('auto' esetén pl. "tegnap" a "1 nappal ezelőtt" helyett)
+ *  thresholds: egységenként az a kerekített érték, amelytől már a következő egységet használja
+ *  absolute: ha az eltérés legalább after másodperc, a format szerinti abszolút időt adja
+ */
+export interface RelativeTimeOptions extends FormatOptions {
+    style?: Intl.RelativeTimeFormatStyle;
+    numeric?: Intl.RelativeTimeFormatNumeric;
+    thresholds?: Partial<Record<RelativeTimeUnit, number>>;
+    absolute?: {
+        after: number;
+        format: string;
+    };
+}
+
+/**
+ * Relatív idő egységeinek hossza másodpercben (a hónap és az év átlagos hossza)
+ * @type {Array}
+ */
+const relativeTimeUnits: [RelativeTimeUnit, number][] = [
+    ['second', 1],
+    ['minute', 60],
+    ['hour', 3600],
+    ['day', 86400],
+    ['week', 604800],
+    ['month', 2629746],
+    ['year', 31556952]
+];
+
+/**
+ * Alapértelmezett egységváltási határok
+ * @type {Object}
+ */
+const relativeTimeThresholds: Record<RelativeTimeUnit, number> = {
+    second: 45,
+    minute: 45,
+    hour: 22,
+    day: 7,
+    week: 4,
+    month: 11,
+    year: Infinity
+};
+
+/**
+ * Időpont megjelenítése egy másik időponthoz képest ("3 perccel ezelőtt", "in 2 days")
+ * @param {number} timestamp - UNIX timestamp
+ * @param {number} [base] - viszonyítási időpont (alapértelmezett: most)
+ * @param {RelativeTimeOptions} [options] - beállítások
+ * @return {string}
+ * @example
+ *  relative(comment.created, undefined, {
+ *      locale: 'hu',
+ *      absolute: { after: 7 * 86400, format: 'Y. m. d.' }
+ *  });
+ */
+export const relative = function(timestamp: number, base: number = Date.now() / 1000, options: RelativeTimeOptions = {}): string {
+    const elapsed = timestamp - base;
+    const seconds = Math.abs(elapsed);
+    if (options.absolute && seconds >= options.absolute.after) {
+        return format(options.absolute.format, timestamp, options);
+    }
+    const thresholds = { ...relativeTimeThresholds, ...options.thresholds };
+    let unit: RelativeTimeUnit = 'second';
+    let value = 0;
+    for (const [name, size] of relativeTimeUnits) {
+        unit = name;
+        value = Math.round(seconds / size);
+        if (value < thresholds[name]) {
+            break;
+        }
+    }
+    const formatter = new Intl.RelativeTimeFormat(options.locale ?? 'en', {
+        style: options.style ?? 'long',
+        numeric: options.numeric ?? 'always'
+    });
+    return formatter.format(elapsed < 0 ? -value : value, unit);
+};
+
+/**
+ * Időpont megjelenítése a jelenhez képest
+ * @param {number} timestamp - UNIX timestamp
+ * @param {RelativeTimeOptions} [options] - beállítások
+ * @return {string}
+ */
+export const fromNow = function(timestamp: number, options: RelativeTimeOptions = {}): string {
+    return relative(timestamp, Date.now() / 1000, options);
+};
+
+/**
+ * Naptár egy napja
+ * @description
+ *  date: a nap kezdete (UNIX timestamp)
+ *  weekday: a hét napja; 0[vasárnap]..6[szombat] (mint a format() w karaktere)
+ *  week: ISO-8601 szerinti hét (mint a format() W karaktere)
+ *  inMonth: a megjelenített hónaphoz tartozik-e (a szélső hetekben az előző és a következő hónap napjai is szerepelnek)
+ */
+export interface CalendarDay {
+    date: number;
+    year: number;
+    month: number;
+    day: number;
+    weekday: number;
+    week: number;
+    inMonth: boolean;
+    isToday: boolean;
+    isWeekend: boolean;
+    disabled: boolean;
+}
+
+/**
+ * Naptár egy hónapja hetekre bontva
+ * @description
+ *  weekdays: a napok rövid nevei az oszlopok sorrendjében
+ */
+export interface CalendarMonth {
+    year: number;
+    month: number;
+    weekdays: string[];
+    weeks: CalendarDay[][];
+}
+
+/**
+ * A calendarMonth() beállításai
+ * @description
+ *  timezone, locale: ugyanaz, mint a format()-nál
+ *  weekStart: a hét első napja; 0[vasárnap]..6[szombat] (alapértelmezett: a locale szerinti, ennek hiányában hétfő)
+ *  fixedRows: mindig 6 hetet ad vissza (a naptár magassága nem változik lapozáskor)
+ *  disabled: a nem választható napokat meghatározó függvény
+ */
+export interface CalendarOptions extends FormatOptions {
+    weekStart?: number;
+    fixedRows?: boolean;
+    disabled?: (day: CalendarDay) => boolean;
+}
+
+/**
+ * A hét első napja és a hétvége napjai egy nyelvhez (Intl.Locale weekInfo alapján, ha elérhető)
+ * @param {string} [locale] - nyelv azonosítója
+ * @return {object} { firstDay, weekend } (0[vasárnap]..6[szombat])
+ */
+const getWeekInfo = function(locale?: string): { firstDay: number, weekend: number[] } {
+    const fallback = { firstDay: 1, weekend: [6, 0] };
+    if (!locale || typeof Intl.Locale !== 'function') {
+        return fallback;
+    }
+    const intlLocale = new Intl.Locale(locale) as Intl.Locale & {
+        weekInfo?: { firstDay: number, weekend: number[] },
+        getWeekInfo?: () => { firstDay: number, weekend: number[] }
+    };
+    const weekInfo = intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo;
+    if (!weekInfo) {
+        return fallback;
+    }
+    return {
+        firstDay: weekInfo.firstDay % 7,
+        weekend: weekInfo.weekend.map(day => day % 7)
+    };
+};
+
+/**
+ * Egy hónap naptára (dátumválasztókhoz)
+ * @param {number} year - év
+ * @param {number} month - hónap (1..12)
+ * @param {CalendarOptions} [options] - beállítások
+ * @return {CalendarMonth}
+ * @example
+ *  const calendar = calendarMonth(2026, 10, {
+ *      locale: 'hu',
+ *      fixedRows: true,
+ *      disabled: (day) => day.date < startOf(Date.now() / 1000, 'day')
+ *  });
+ *  calendar.weeks.forEach(week => week.forEach(day => ...));
+ */
+export const calendarMonth = function(year: number, month: number, options: CalendarOptions = {}): CalendarMonth {
+    const weekInfo = getWeekInfo(options.locale);
+    const weekStart = options.weekStart ?? weekInfo.firstDay;
+    const today = toWall(Date.now() / 1000, options.timezone);
+    const lead = (new Date(Date.UTC(year, month - 1, 1)).getUTCDay() - weekStart + 7) % 7;
+    const rows = options.fixedRows ? 6 : Math.ceil((lead + daysInMonth(year, month)) / 7);
+    const weeks = Array.from({ length: rows }, (_week, row) => Array.from({ length: 7 }, (_day, column) => {
+        const wall = new Date(Date.UTC(year, month - 1, 1 - lead + row * 7 + column));
+        const [cellYear, cellMonth, cellDay] = [wall.getUTCFullYear(), wall.getUTCMonth() + 1, wall.getUTCDate()];
+        const cell: CalendarDay = {
+            date: fromWall(wall, options.timezone),
+            year: cellYear,
+            month: cellMonth,
+            day: cellDay,
+            weekday: wall.getUTCDay(),
+            week: getIsoWeek(cellYear, cellMonth, cellDay)[1],
+            inMonth: cellMonth === month,
+            isToday: cellYear === today.getUTCFullYear() && cellMonth === today.getUTCMonth() + 1 && cellDay === today.getUTCDate(),
+            isWeekend: weekInfo.weekend.includes(wall.getUTCDay()),
+            disabled: false
+        };
+        cell.disabled = options.disabled?.(cell) ?? false;
+        return cell;
+    }));
+    const daysShort = getLocale(options.locale ?? 'en').daysShort;
+    return {
+        year,
+        month,
+        weekdays: Array.from({ length: 7 }, (_value, index) => daysShort[(weekStart + index) % 7]),
+        weeks
+    };
+};
+
+/**
+ * Egy év naptára hónapokra bontva
+ * @param {number} year - év
+ * @param {CalendarOptions} [options] - beállítások
+ * @return {Array<CalendarMonth>}
+ */
+export const calendarYear = function(year: number, options: CalendarOptions = {}): CalendarMonth[] {
+    return Array.from({ length: 12 }, (_value, index) => calendarMonth(year, index + 1, options));
+};
+
+/**
+ * Naptár lapozása
+ * @param {CalendarMonth} calendar - aktuális hónap
+ * @param {number} months - lapozás hónapokban (negatív: visszafelé)
+ * @param {CalendarOptions} [options] - beállítások
+ * @return {CalendarMonth}
+ * @example
+ *  calendar = shiftCalendarMonth(calendar, 1, options); // következő hónap
+ */
+export const shiftCalendarMonth = function(calendar: CalendarMonth, months: number, options: CalendarOptions = {}): CalendarMonth {
+    const totalMonths = calendar.month - 1 + months;
+    return calendarMonth(
+        calendar.year + Math.floor(totalMonths / 12),
+        (totalMonths % 12 + 12) % 12 + 1,
+        options
+    );
+};
+
+/**
+ * Munkaszüneti napok naptára
+ * @description
+ *  weekend: a hétvége napjai; 0[vasárnap]..6[szombat]
+ *  holidays: egy év munkaszüneti napjai 'Y-m-d' alakban
+ *  workdays: hétvégére áthelyezett munkanapok 'Y-m-d' alakban
+ *  restDays: áthelyezett pihenőnapok 'Y-m-d' alakban
+ */
+export interface HolidayCalendar {
+    weekend: number[];
+    holidays: (year: number) => string[];
+    workdays?: string[];
+    restDays?: string[];
+}
+
+/**
+ * A munkanap-függvények beállításai
+ * @description
+ *  timezone: ugyanaz, mint a format()-nál
+ *  calendar: regisztrált naptár azonosítója vagy egyedi naptár (alapértelmezett: 'hu')
+ */
+export interface WorkingDayOptions extends FormatOptions {
+    calendar?: string | HolidayCalendar;
+}
+
+/**
+ * Dátum 'Y-m-d' alakban
+ * @param {number} year - év
+ * @param {number} month - hónap (1..12, túlcsordulhat)
+ * @param {number} day - nap (túlcsordulhat)
+ * @return {string}
+ */
+const toDateString = function(year: number, month: number, day: number): string {
+    return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+};
+
+/**
+ * Húsvétvasárnap (Gergely-naptár, névtelen algoritmus)
+ * @param {number} year - év
+ * @return {array} [hónap, nap]
+ */
+export const getEaster = function(year: number): [number, number] {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = (h + l - 7 * m + 114) % 31 + 1;
+    return [month, day];
+};
+
+/**
+ * Regisztrált munkaszüneti naptárak
+ * @type {Object}
+ */
+const holidayCalendars: Record<string, HolidayCalendar> = {
+    hu: {
+        weekend: [6, 0],
+        holidays: (year) => {
+            const [month, day] = getEaster(year);
+            return [
+                toDateString(year, 1, 1),
+                toDateString(year, 3, 15),
+                // nagypéntek 2017 óta
+                ...(year >= 2017 ? [toDateString(year, month, day - 2)] : []),
+                toDateString(year, month, day),
+                toDateString(year, month, day + 1),
+                toDateString(year, 5, 1),
+                // pünkösdvasárnap és -hétfő
+                toDateString(year, month, day + 49),
+                toDateString(year, month, day + 50),
+                toDateString(year, 8, 20),
+                toDateString(year, 10, 23),
+                toDateString(year, 11, 1),
+                toDateString(year, 12, 25),
+                toDateString(year, 12, 26)
+            ];
+        }
+    }
+};
+
+/**
+ * Munkaszüneti naptár regisztrálása (meglévő felülírására is használható)
+ * @param {string} name - naptár azonosítója (pl. országkód)
+ * @param {HolidayCalendar} calendar - naptár
+ * @example
+ *  // a kormány által kiadott munkanap-áthelyezések
+ *  registerHolidayCalendar('hu', {
+ *      ...getHolidayCalendar('hu'),
+ *      workdays: ['2026-01-10', '2026-08-08', '2026-12-12'],
+ *      restDays: ['2026-01-02', '2026-08-21', '2026-12-24']
+ *  });
+ */
+export const registerHolidayCalendar = function(name: string, calendar: HolidayCalendar): void {
+    holidayCalendars[name] = calendar;
+};
+
+/**
+ * Regisztrált munkaszüneti naptár lekérése
+ * @param {string} name - naptár azonosítója
+ * @return {HolidayCalendar}
+ */
+export const getHolidayCalendar = function(name: string): HolidayCalendar {
+    if (!holidayCalendars[name]) {
+        throw new Error(`Unknown holiday calendar: ${name}`);
+    }
+    return holidayCalendars[name];
+};
+
+/**
+ * Munkanap-vizsgáló függvény létrehozása (évenként egyszer számolja ki a munkaszüneti napokat)
+ * @param {WorkingDayOptions} options - beállítások
+ * @return {function} falióra szerinti dátumot vizsgáló függvény
+ */
+const workingDayChecker = function(options: WorkingDayOptions): (wall: Date) => boolean {
+    const calendar = typeof options.calendar === 'object' ? options.calendar : getHolidayCalendar(options.calendar ?? 'hu');
+    const workdays = new Set(calendar.workdays);
+    const restDays = new Set(calendar.restDays);
+    const holidays = new Map<number, Set<string>>();
+    return (wall) => {
+        const date = wall.toISOString().slice(0, 10);
+        const year = wall.getUTCFullYear();
+        if (!holidays.has(year)) {
+            holidays.set(year, new Set(calendar.holidays(year)));
+        }
+        if (restDays.has(date)) {
+            return false;
+        }
+        if (workdays.has(date)) {
+            return true;
+        }
+        return !calendar.weekend.includes(wall.getUTCDay()) && !holidays.get(year)?.has(date);
+    };
+};
+
+/**
+ * Munkanap-e
+ * @param {number} timestamp - UNIX timestamp
+ * @param {WorkingDayOptions} [options] - beállítások
+ * @return {boolean}
+ */
+export const isWorkingDay = function(timestamp: number, options: WorkingDayOptions = {}): boolean {
+    return workingDayChecker(options)(toWall(timestamp, options.timezone));
+};
+
+/**
+ * Munkanapok hozzáadása (a napszak nem változik)
+ * @param {number} timestamp - UNIX timestamp
+ * @param {number} days - munkanapok száma (negatív: visszafelé)
+ * @param {WorkingDayOptions} [options] - beállítások
+ * @return {number} UNIX timestamp
+ * @description
+ *  Hibát dob, ha a naptár szerint egy éven belül nincs munkanap (pl. minden nap hétvége).
+ * @example
+ *  const deadline = addWorkingDays(ticket.created, 3, { timezone: 'Europe/Budapest' });
+ */
+export const addWorkingDays = function(timestamp: number, days: number, options: WorkingDayOptions = {}): number {
+    if (!days) {
+        return timestamp;
+    }
+    const isWorking = workingDayChecker(options);
+    const wall = toWall(timestamp, options.timezone);
+    const step = Math.sign(days);
+    let remaining = Math.abs(days);
+    let idle = 0;
+    while (remaining > 0) {
+        wall.setUTCDate(wall.getUTCDate() + step);
+        if (isWorking(wall)) {
+            remaining--;
+            idle = 0;
+        }
+        else if (++idle > 366) {
+            throw new Error('No working day found within a year');
+        }
+    }
+    return fromWall(wall, options.timezone);
+};
+
+/**
+ * Munkanapok száma két időpont között
+ * @param {number} from - UNIX timestamp
+ * @param {number} to - UNIX timestamp
+ * @param {WorkingDayOptions} [options] - beállítások
+ * @return {number} a from utáni naptól a to napjáig (azt is beleértve) tartó munkanapok száma, negatív, ha to < from
+ * @description
+ *  workingDaysBetween(t, addWorkingDays(t, n)) === n, ha n >= 0
+ */
+export const workingDaysBetween = function(from: number, to: number, options: WorkingDayOptions = {}): number {
+    if (to < from) {
+        return -workingDaysBetween(to, from, options);
+    }
+    const isWorking = workingDayChecker(options);
+    const wall = toWall(startOf(from, 'day', options), options.timezone);
+    const end = toWall(startOf(to, 'day', options), options.timezone);
+    let count = 0;
+    while (wall < end) {
+        wall.setUTCDate(wall.getUTCDate() + 1);
+        if (isWorking(wall)) {
+            count++;
+        }
+    }
+    return count;
+};
@@ -1,3 +1,5 @@
+import { getRectIntersection } from './geometry';
+
 interface Coord {
     x: number;
     y: number;
@@ -10,23 +12,163 @@ interface Rect {
     h: number;
 }
 
+/**
+ * Elem sarkai (bal felső, jobb felső, jobb alsó, bal alsó sorrendben)
+ */
+export type Quad = [Coord, Coord, Coord, Coord];
+
+/**
+ * Elem mérete és pozíciója
+ * @description
+ *  quad: a doboz sarkai minden transzformáció (az elem és a szülők transform, translate, rotate, scale
+ *  tulajdonsága) után, a téglalappal azonos koordinátarendszerben
+ */
+export interface Dimensions extends Rect {
+    quad: Quad;
+}
+
+/**
+ * Viszonyítási alap: elem (a padding-doboz bal felső sarka, a görgetett tartalommal együtt mozgó koordinátákkal,
+ * mint az abszolút pozicionált gyerekek left/top értékeinél) vagy a document (oldal koordináták)
+ */
+export type Frame = HTMLElement | Document;
+
+/**
+ * CSS hossz átváltása px-re
+ * @param {string} value - pl. '12px', '50%'
+ * @param {number} reference - a százalék alapja
+ * @return {number}
+ */
+const parseLength = function(value: string, reference: number): number {
+    return value.endsWith('%') ? parseFloat(value) * reference / 100 : parseFloat(value) || 0;
+};
+
+/**
+ * Elem saját transzformációja (translate, rotate, scale és transform tulajdonság a transform-origin körül)
+ * @param {HTMLElement} element
+ * @return {DOMMatrix} a border-box koordinátáiból a layout szerinti helyzet koordinátáiba
+ */
+const getOwnTransform = function(element: HTMLElement): DOMMatrix {
+    const style = window.getComputedStyle(element);
+    const [originX, originY] = style.transformOrigin.split(' ').map(parseFloat);
+    const matrix = new DOMMatrix().translateSelf(originX || 0, originY || 0);
+    if (style.translate && style.translate !== 'none') {
+        const [x, y = '0', z = '0'] = style.translate.split(' ');
+        matrix.translateSelf(parseLength(x, element.offsetWidth), parseLength(y, element.offsetHeight), parseFloat(z) || 0);
+    }
+    if (style.rotate && style.rotate !== 'none') {
+        const axis = style.rotate.split(' ');
+        const angle = axis.pop() as string;
+        const functions: Record<string, string> = { x: 'rotateX', y: 'rotateY', z: 'rotate', '': 'rotate' };
+        matrix.multiplySelf(new DOMMatrix(axis.length === 3 ?
+            `rotate3d(${axis.join(', ')}, ${angle})` :
+            `${functions[axis.join('')]}(${angle})`));
+    }
+    if (style.scale && style.scale !== 'none') {
+        const [x, y = x, z = '1']: string[] = style.scale.split(' ')
+            .map(value => value.endsWith('%') ? `${parseFloat(value) / 100}` : value);
+        matrix.scaleSelf(parseFloat(x), parseFloat(y), parseFloat(z));
+    }
+    if (style.transform && style.transform !== 'none') {
+        matrix.multiplySelf(new DOMMatrix(style.transform));
+    }
+    return matrix.translateSelf(-(originX || 0), -(originY || 0));
+};
+
+/**
+ * Elem koordinátáinak átváltása a viewport koordinátáira
+ * @param {HTMLElement} element
+ * @param {boolean} [includeOwn=true] - az elem saját transzformációjának figyelembevétele
+ * @return {DOMMatrix} a border-box koordinátáiból a viewport (client) koordinátáiba
+ * @description
+ *  Az offsetParent láncon halad végig: az offsetLeft/offsetTop a szülő padding-dobozához képest adja az elem helyét,
+ *  ehhez jön a szülő kerete, a közbülső elemek görgetése és minden szülő saját transzformációja.
+ */
+const getViewportMatrix = function(element: HTMLElement, includeOwn: boolean = true): DOMMatrix {
+    let matrix = includeOwn ? getOwnTransform(element) : new DOMMatrix();
+    let node = element;
+    for (;;) {
+        const parent = node.offsetParent as HTMLElement | null;
+        // a body-hoz képesti offsetLeft/offsetTop már az oldal koordinátája
+        const root = !parent || parent === document.body;
+        const fixed = window.getComputedStyle(node).position === 'fixed';
+        let x = node.offsetLeft + (root ? 0 : (parent as HTMLElement).clientLeft);
+        let y = node.offsetTop + (root ? 0 : (parent as HTMLElement).clientTop);
+        if (!(root && fixed)) {
+            for (
+                let ancestor = node.parentElement;
+                ancestor && ancestor !== document.body && ancestor !== document.documentElement;
+                ancestor = ancestor === parent ? null : ancestor.parentElement
+            ) {
+                x -= ancestor.scrollLeft;
+                y -= ancestor.scrollTop;
+            }
+        }
+        if (root) {
+            return new DOMMatrix().translateSelf(
+                x - (fixed ? 0 : window.scrollX),
+                y - (fixed ? 0 : window.scrollY)
+            ).multiplySelf(matrix);
+        }
+        node = parent as HTMLElement;
+        matrix = getOwnTransform(node).multiplySelf(new DOMMatrix().translateSelf(x, y)).multiplySelf(matrix);
+    }
+};
+
+/**
+ * Viszonyítási alap koordinátáinak átváltása a viewport koordinátáira
+ * @param {Frame | null} frame - elem, document vagy null (viewport)
+ * @return {DOMMatrix}
+ */
+const getFrameMatrix = function(frame: Frame | null): DOMMatrix {
+    if (!frame) {
+        return new DOMMatrix();
+    }
+    if (!(frame instanceof HTMLElement) || frame === document.documentElement) {
+        return new DOMMatrix().translateSelf(-window.scrollX, -window.scrollY);
+    }
+    return getViewportMatrix(frame).translateSelf(frame.clientLeft - frame.scrollLeft, frame.clientTop - frame.scrollTop);
+};
+
+/**
+ * Pont transzformálása (3D transzformáció esetén vetítéssel)
+ * @param {DOMMatrix} matrix
+ * @param {number} x
+ * @param {number} y
+ * @return {Coord}
+ */
+const transformPoint = function(matrix: DOMMatrix, x: number, y: number): Coord {
+    const point = matrix.transformPoint(new DOMPoint(x, y));
+    return { x: point.x / point.w, y: point.y / point.w };
+};
+
 /**
  * Egér pozíciója egy elemhez képest
  * @param {Event} event - egérhez kapcsolódó esemény
  * @param {HTMLElement} [elem=document.body] - egy DOM elem
+ * @param {object} [options]
+ * @param {Frame} [options.relativeTo] - viszonyítási alap (elem vagy document); megadása esetén az elem helyett ehhez
+ *  képest, a keretek, a görgetések és a transzformációk figyelembevételével
  * @return {Coord} egérpozíció
  * @description
  *  return = {
  *      x: Number,
  *      y: Number
  *  }
+ * @example
+ *  // a görgetett, nagyított vásznon belüli pozíció
+ *  const point = getMousePosition(event, null, { relativeTo: canvasContainer });
  */
 export const getMousePosition = function(
-    event: MouseEvent, elem: HTMLElement | null | undefined = document.body
+    event: MouseEvent, elem: HTMLElement | null | undefined = document.body, { relativeTo }: { relativeTo?: Frame } = {}
 ): Coord {
+    if (relativeTo) {
+        return transformPoint(getFrameMatrix(relativeTo).inverse(), event.clientX, event.clientY);
+    }
+
     const offset = {
         x: elem?.offsetLeft && !Number.isNaN(elem?.offsetLeft) ? elem?.offsetLeft : 0,
-        y: elem?.offsetLeft && !Number.isNaN(elem?.offsetTop) ? elem?.offsetTop : 0
+        y: elem?.offsetTop && !Number.isNaN(elem?.offsetTop) ? elem?.offsetTop : 0
     };
 
     while ((elem = elem?.offsetParent as HTMLElement)) {
@@ -44,29 +186,38 @@ export const getMousePosition = function(
  * Elem mérete és pozíciója a document-hez képest
  * @param {String} [type='border'] - a box-model elemeinek beleszámítása ('content'|'padding'|'border'|'margin')
  * @param {Boolean} [calculateRotate=false] - elforgatás esetén a befoglaló téglalap adatainak visszaadása
- * @return {Rect} pozíció és méret
+ * @param {Frame} [relativeTo] - viszonyítási alap (bármelyik szülő, görgethető tároló vagy a document); megadása
+ *  esetén a keretek, a görgetések és a transzformációk is számítanak, a calculateScroll pedig nem
+ * @return {Dimensions} pozíció és méret, valamint a transzformált sarkok
  * @description
  *  return = {
  *      x: Number,
  *      y: Number,
  *      w: Number,
- *      h: Number
+ *      h: Number,
+ *      quad: [{x, y}, {x, y}, {x, y}, {x, y}]
  *  }
+ *  relativeTo nélkül a téglalap az offsetParent-hez (calculateRotate esetén a viewport-hoz) képest értendő,
+ *  relativeTo esetén calculateRotate nélkül a saját transzformáció nélküli, azzal a quad-ot befoglaló téglalap.
+ * @example
+ *  const { quad } = getDimensions({ element: handle, relativeTo: editor, calculateRotate: true });
  */
 export const getDimensions = function({
     element,
     type = 'border',
     calculateScroll = false,
-    calculateRotate = false
+    calculateRotate = false,
+    relativeTo
 }: {
     element: HTMLElement,
     type: 'content' | 'padding' | 'border' | 'margin',
     calculateScroll: boolean,
-    calculateRotate: boolean
-}): Rect {
+    calculateRotate: boolean,
+    relativeTo?: Frame
+}): Dimensions {
     let rect;
     let offset = { x: 0, y: 0 };
-    if (calculateScroll){
+    if (calculateScroll && !relativeTo){
         offset = {
             x: window.pageXOffset,
             y: window.pageYOffset
@@ -85,70 +236,705 @@ export const getDimensions = function({
         };
     }
     const getStyle = function(prop: string): number {
-        const size = window.getComputedStyle(element).getPropertyValue(prop);
-        if (/^\d+px$/.test(size)) {
-            return Number(size.substring(0, size.length - 2));
-        }
-        else {
-            return 0;
-        }
+        return parseFloat(window.getComputedStyle(element).getPropertyValue(prop)) || 0;
     };
-    const result = {
+    // a doboz az elem border-box koordinátáiban
+    const box = {
         content: {
-            x: rect.left + offset.x + getStyle('border-left') + getStyle('padding-left'),
-            y: rect.top + offset.y + getStyle('border-top') + getStyle('padding-top'),
-            w: rect.width - getStyle('border-left') - getStyle('border-right') -
+            x: getStyle('border-left-width') + getStyle('padding-left'),
+            y: getStyle('border-top-width') + getStyle('padding-top'),
+            w: element.offsetWidth - getStyle('border-left-width') - getStyle('border-right-width') -
                 getStyle('padding-left') - getStyle('padding-right'),
-            h: rect.height - getStyle('border-top') - getStyle('border-bottom') -
+            h: element.offsetHeight - getStyle('border-top-width') - getStyle('border-bottom-width') -
                 getStyle('padding-top') - getStyle('padding-bottom')
         },
         padding: {
-            x: rect.left + offset.x + getStyle('border-left'),
-            y: rect.top + offset.y + getStyle('border-top'),
-            w: rect.width - getStyle('border-left') - getStyle('border-right'),
-            h: rect.height - getStyle('border-top') - getStyle('border-bottom')
+            x: getStyle('border-left-width'),
+            y: getStyle('border-top-width'),
+            w: element.offsetWidth - getStyle('border-left-width') - getStyle('border-right-width'),
+            h: element.offsetHeight - getStyle('border-top-width') - getStyle('border-bottom-width')
         },
         border: {
-            x: rect.left + offset.x,
-            y: rect.top + offset.y,
-            w: rect.width,
-            h: rect.height
+            x: 0,
+            y: 0,
+            w: element.offsetWidth,
+            h: element.offsetHeight
         },
         margin: {
-            x: rect.left + offset.x - getStyle('margin-left'),
-            y: rect.top + offset.y - getStyle('margin-top'),
-            w: rect.width + getStyle('margin-left') + getStyle('margin-right'),
-            h: rect.height + getStyle('margin-top') + getStyle('margin-bottom')
+            x: -getStyle('margin-left'),
+            y: -getStyle('margin-top'),
+            w: element.offsetWidth + getStyle('margin-left') + getStyle('margin-right'),
+            h: element.offsetHeight + getStyle('margin-top') + getStyle('margin-bottom')
         }
+    }[type];
+    const frame = relativeTo ?? (calculateRotate ? null :
+        element.offsetParent && element.offsetParent !== document.body ? element.offsetParent as HTMLElement : document);
+    const toFrame = getFrameMatrix(frame).inverse();
+    const getQuad = (matrix: DOMMatrix): Quad => [
+        transformPoint(matrix, box.x, box.y),
+        transformPoint(matrix, box.x + box.w, box.y),
+        transformPoint(matrix, box.x + box.w, box.y + box.h),
+        transformPoint(matrix, box.x, box.y + box.h)
+    ];
+    const quad = getQuad(new DOMMatrix().translateSelf(offset.x, offset.y).multiplySelf(toFrame).multiplySelf(getViewportMatrix(element)));
+
+    if (relativeTo) {
+        const corners = calculateRotate ? quad : getQuad(toFrame.multiply(getViewportMatrix(element, false)));
+        const x = Math.min(...corners.map(corner => corner.x));
+        const y = Math.min(...corners.map(corner => corner.y));
+        return {
+            x, y,
+            w: Math.max(...corners.map(corner => corner.x)) - x,
+            h: Math.max(...corners.map(corner => corner.y)) - y,
+            quad
+        };
+    }
+    return {
+        x: rect.left + offset.x + box.x,
+        y: rect.top + offset.y + box.y,
+        w: rect.width + box.w - element.offsetWidth,
+        h: rect.height + box.h - element.offsetHeight,
+        quad
     };
-    return result[type];
 };
 
 /**
- * Jobb gomb tiltása egy adott elemen
+ * Az observeVisibility() által jelentett láthatóság
+ * @description
+ *  rect: az elem látható része a viewport (client) koordinátáiban (nem látható elem esetén nulla téglalap)
+ *  ratio: a látható rész aránya (0 és 1 között)
+ */
+export interface Visibility {
+    rect: Rect;
+    ratio: number;
+}
+
+/**
+ * Két méret és pozíció azonos-e
+ * @param {Dimensions} a
+ * @param {Dimensions} b
+ * @return {boolean}
+ */
+const isSameDimensions = function(a: Dimensions, b: Dimensions): boolean {
+    return a.x === b.x && a.y === b.y && a.w === b.w && a.h === b.h &&
+        a.quad.every((corner, i) => corner.x === b.quad[i].x && corner.y === b.quad[i].y);
+};
+
+/**
+ * Elem méretének és pozíciójának figyelése
  * @param {HTMLElement} element - az adott elem
+ * @param {String} type - a box-model elemeinek beleszámítása ('content'|'padding'|'border'|'margin')
+ * @param {function} callback - a getDimensions() eredményével hívódik meg (először a feliratkozás utáni képkockában)
+ * @param {object} [options] - a getDimensions() további beállításai (calculateScroll, calculateRotate, relativeTo)
+ * @return {function} leiratkozás
+ * @description
+ *  Az elem átméretezése (ResizeObserver), a dokumentum style és class attribútumainak és szerkezetének változása
+ *  (MutationObserver), valamint bármely görgetés és az ablak átméretezése után újramér. A változásokat
+ *  képkockánként egyszer dolgozza fel, és csak akkor hívja a callback-et, ha az eredmény eltér az előzőtől.
+ * @example
+ *  const unsubscribe = observeDimensions(target, 'border', (rect) => {
+ *      Object.assign(overlay.style, { left: `${rect.x}px`, top: `${rect.y}px`, width: `${rect.w}px`, height: `${rect.h}px` });
+ *  }, { relativeTo: overlay.offsetParent as HTMLElement });
+ */
+export const observeDimensions = function(
+    element: HTMLElement,
+    type: 'content' | 'padding' | 'border' | 'margin',
+    callback: (dimensions: Dimensions) => void,
+    options: { calculateScroll?: boolean, calculateRotate?: boolean, relativeTo?: Frame } = {}
+): () => void {
+    let frame = 0;
+    let last: Dimensions | null = null;
+    const measure = function() {
+        frame = 0;
+        const dimensions = getDimensions({
+            element,
+            type,
+            calculateScroll: options.calculateScroll ?? false,
+            calculateRotate: options.calculateRotate ?? false,
+            relativeTo: options.relativeTo
+        });
+        if (!last || !isSameDimensions(last, dimensions)) {
+            last = dimensions;
+            callback(dimensions);
+        }
+    };
+    const schedule = function() {
+        if (!frame) {
+            frame = window.requestAnimationFrame(measure);
+        }
+    };
+
+    const resizeObserver = new ResizeObserver(schedule);
+    resizeObserver.observe(element);
+    const mutationObserver = new MutationObserver(schedule);
+    mutationObserver.observe(document.documentElement, {
+        attributes: true, attributeFilter: ['style', 'class'], childList: true, subtree: true
+    });
+    // a capture fázisban bármely görgethető tároló görgetése is ide fut be
+    window.addEventListener('scroll', schedule, { capture: true, passive: true });
+    window.addEventListener('resize', schedule);
+    schedule();
+
+    return function() {
+        window.cancelAnimationFrame(frame);
+        resizeObserver.disconnect();
+        mutationObserver.disconnect();
+        window.removeEventListener('scroll', schedule, { capture: true });
+        window.removeEventListener('resize', schedule);
+    };
+};
+
+/**
+ * Elem láthatóságának figyelése
+ * @param {HTMLElement} element - az adott elem
+ * @param {number | array<number>} thresholds - azok a láthatósági arányok, amelyek átlépésekor jelentés történik
+ * @param {function} callback - a látható téglalappal és aránnyal hívódik meg
+ * @param {object} [options] - az IntersectionObserver root és rootMargin beállítása
+ * @return {function} leiratkozás
+ * @example
+ *  const unsubscribe = observeVisibility(video, [0, 0.5, 1], ({ ratio }) => ratio >= 0.5 ? video.play() : video.pause());
+ */
+export const observeVisibility = function(
+    element: HTMLElement,
+    thresholds: number | number[],
+    callback: (visibility: Visibility) => void,
+    options: { root?: Element | Document | null, rootMargin?: string } = {}
+): () => void {
+    const toRect = (rect: DOMRectReadOnly): Rect => ({ x: rect.left, y: rect.top, w: rect.width, h: rect.height });
+    const observer = new IntersectionObserver((entries) => {
+        const entry = entries[entries.length - 1];
+        // a rootBounds null lehet (pl. más eredetű iframe-ben), ilyenkor a viewport számít
+        const root = entry.rootBounds ? toRect(entry.rootBounds) : { x: 0, y: 0, w: window.innerWidth, h: window.innerHeight };
+        callback({
+            rect: entry.isIntersecting ? getRectIntersection(toRect(entry.boundingClientRect), root) : { x: 0, y: 0, w: 0, h: 0 },
+            ratio: entry.intersectionRatio
+        });
+    }, { ...options, threshold: thresholds });
+    observer.observe(element);
+    return function() {
+        observer.disconnect();
+    };
+};
+
+/**
+ * A protect() beállításai (alapértelmezés szerint minden védelem aktív)
+ * @description
+ *  contextMenu: jobb gomb és helyi menü tiltása
+ *  selection: kijelölés tiltása
+ *  copy, cut: másolás és kivágás tiltása
+ *  drag: elemek (pl. képek) kihúzásának tiltása
+ *  print: az elem elrejtése nyomtatáskor
+ *  keyboardShortcuts: Ctrl+C (ha a kijelölés vagy a fókusz az elemen belül van), Ctrl+S és Ctrl+P tiltása
+ *  (macOS-en Cmd-del is)
+ */
+export interface ProtectionOptions {
+    contextMenu?: boolean;
+    selection?: boolean;
+    copy?: boolean;
+    cut?: boolean;
+    drag?: boolean;
+    print?: boolean;
+    keyboardShortcuts?: boolean;
+}
+
+/**
+ * A protect() által visszaadott kezelő
+ */
+export interface ProtectionHandle {
+    except: (descendant: HTMLElement) => () => void;
+    release: () => void;
+}
+
+/**
+ * Minden védelem kikapcsolva (a régi, egy-egy védelmet bekapcsoló függvényekhez)
+ * @type {Object}
+ */
+const noProtection: Required<ProtectionOptions> = {
+    contextMenu: false, selection: false, copy: false, cut: false, drag: false, print: false, keyboardShortcuts: false
+};
+
+/**
+ * A nyomtatáskor elrejtett elemek stíluslapjának azonosítója
+ * @type {string}
  */
-export const rightClickProtection = function(element: HTMLElement) {
-    element.addEventListener('mouseup', (event) => {
-        if (event.button === 2) {
+const printStyleId = 'print-protection-style';
+
+/**
+ * A nyomtatás ellen védő, még meg nem szüntetett védelmek száma (az utolsó megszüntetésekor a stíluslap törlődik)
+ * @type {number}
+ */
+let printProtectionCount = 0;
+
+/**
+ * Tartalom védelme (helyi menü, kijelölés, másolás, kihúzás, nyomtatás és billentyűparancsok tiltása)
+ * @param {HTMLElement} element - a védett elem
+ * @param {ProtectionOptions} [options] - bekapcsolt védelmek (alapértelmezés szerint mind)
+ * @return {ProtectionHandle} {except, release}
+ * @description
+ *  A kijelölés tiltása a userSelect inline stílust, a nyomtatás tiltása egy közös stíluslapot és egy data attribútumot
+ *  használ, ezeket a release() visszaállítja (a stíluslapot az utolsó nyomtatásvédelem megszüntetésekor törli).
+ * @example
+ *  const protection = protect(article, { print: false });
+ *  protection.except(commentInput);
+ *  // ...
+ *  protection.release();
+ */
+export const protect = function(element: HTMLElement, options: ProtectionOptions = {}): ProtectionHandle {
+    const enabled: Required<ProtectionOptions> = {
+        contextMenu: true, selection: true, copy: true, cut: true, drag: true, print: true, keyboardShortcuts: true, ...options
+    };
+    const exceptions = new Map<HTMLElement, string>();
+    const original = { userSelect: element.style.userSelect, unselectable: element.getAttribute('unselectable') };
+
+    const isExcepted = function(target: EventTarget | null): boolean {
+        return target instanceof Node && [...exceptions.keys()].some(exception => exception.contains(target));
+    };
+    const block = function(event: Event): void {
+        if (!isExcepted(event.target)) {
+            event.preventDefault();
+        }
+    };
+    const blockContextMenu = function(event: Event): void {
+        if ((event.type === 'contextmenu' || (event as MouseEvent).button === 2) && !isExcepted(event.target)) {
             event.preventDefault();
             event.stopPropagation();
         }
-    });
-    element.addEventListener('contextmenu', (event) => {
+    };
+    const blockShortcut = function(event: Event): void {
+        const { key, ctrlKey, metaKey, altKey, target } = event as KeyboardEvent;
+        if (!(ctrlKey || metaKey) || altKey || isExcepted(target) || !key) {
+            return;
+        }
+        const inside = (node: Node | null | undefined): boolean => Boolean(node && element.contains(node));
+        const copying = key.toLowerCase() === 'c' && (inside(document.activeElement) || inside(window.getSelection()?.anchorNode));
+        if (copying || ['s', 'p'].includes(key.toLowerCase())) {
+            event.preventDefault();
+        }
+    };
+
+    const listeners: (readonly [HTMLElement | Document, string, (event: Event) => void])[] = [
+        ...(enabled.contextMenu ? [[element, 'contextmenu', blockContextMenu], [element, 'mouseup', blockContextMenu]] as const : []),
+        ...(enabled.selection ? [[element, 'selectstart', block]] as const : []),
+        ...(enabled.copy ? [[element, 'copy', block]] as const : []),
+        ...(enabled.cut ? [[element, 'cut', block]] as const : []),
+        ...(enabled.drag ? [[element, 'dragstart', block]] as const : []),
+        // a Ctrl+S és a Ctrl+P az egész oldalra vonatkozik
+        ...(enabled.keyboardShortcuts ? [[document, 'keydown', blockShortcut]] as const : [])
+    ];
+    listeners.forEach(([target, type, listener]) => target.addEventListener(type, listener, target === document));
+    if (enabled.selection) {
+        element.setAttribute('unselectable', 'on');
+        element.style.userSelect = 'none';
+    }
+    if (enabled.print) {
+        if (!document.getElementById(printStyleId)) {
+            const style = document.createElement('style');
+            style.id = printStyleId;
+            style.textContent = '@media print { [data-print-protected] { visibility: hidden !important; } ' +
+                '[data-print-protected] [data-print-allowed] { visibility: visible !important; } }';
+            document.head.appendChild(style);
+        }
+        printProtectionCount++;
+        element.setAttribute('data-print-protected', '');
+    }
+
+    const handle = {
+
+        /**
+         * Kivétel a védelem alól (pl. egy beviteli mező a védett területen)
+         * @param {HTMLElement} descendant - a védett elem leszármazottja
+         * @return {function} a kivétel megszüntetése
+         */
+        except: function(descendant: HTMLElement): () => void {
+            if (descendant === element || !element.contains(descendant)) {
+                throw new Error('Exception must be a descendant of the protected element');
+            }
+            if (!exceptions.has(descendant)) {
+                exceptions.set(descendant, descendant.style.userSelect);
+                if (enabled.selection) {
+                    descendant.style.userSelect = 'text';
+                }
+                if (enabled.print) {
+                    descendant.setAttribute('data-print-allowed', '');
+                }
+            }
+            return function() {
+                if (exceptions.has(descendant)) {
+                    descendant.style.userSelect = exceptions.get(descendant) as string;
+                    descendant.removeAttribute('data-print-allowed');
+                    exceptions.delete(descendant);
+                }
+            };
+        },
+
+        /**
+         * A védelem megszüntetése (eseménykezelők, stílusok és kivételek visszaállítása)
+         */
+        release: function(): void {
+            listeners.forEach(([target, type, listener]) => target.removeEventListener(type, listener, target === document));
+            listeners.length = 0;
+            exceptions.forEach((userSelect, descendant) => {
+                descendant.style.userSelect = userSelect;
+                descendant.removeAttribute('data-print-allowed');
+            });
+            exceptions.clear();
+            if (enabled.selection) {
+                element.style.userSelect = original.userSelect;
+                if (original.unselectable === null) {
+                    element.removeAttribute('unselectable');
+                }
+                else {
+                    element.setAttribute('unselectable', original.unselectable);
+                }
+            }
+            if (enabled.print) {
+                element.removeAttribute('data-print-protected');
+                if (--printProtectionCount === 0) {
+                    document.getElementById(printStyleId)?.remove();
+                }
+            }
+            enabled.selection = enabled.print = false;
+        }
+
+    };
+
+    return handle;
+};
+
+/**
+ * Jobb gomb tiltása egy adott elemen
+ * @param {HTMLElement} element - az adott elem
+ * @return {ProtectionHandle} a tiltás megszüntethető a release()-zel
+ */
+export const rightClickProtection = function(element: HTMLElement): ProtectionHandle {
+    return protect(element, { ...noProtection, contextMenu: true });
+};
+
+/**
+ * Kijelölés tiltása egy adott elemen
+ * @param {HTMLElement} element - az adott elem
+ * @return {ProtectionHandle} a tiltás megszüntethető a release()-zel (az eredeti userSelect stílus visszaáll)
+ */
+export const selectProtection = function(element: HTMLElement): ProtectionHandle {
+    return protect(element, { ...noProtection, selection: true });
+};
+
+/**
+ * Húzás, átméretezés és forgatás közös beállításai
+ * @description
+ *  A téglalapok az offsetParent-hez képesti pozíciót (x, y) és a border-box méretet (w, h) adják meg, az elem
+ *  left, top, width és height stílusa ehhez igazodik (az elemnek pozicionáltnak kell lennie).
+ *  axis: mozgás csak vízszintesen ('x') vagy függőlegesen ('y')
+ *  containment: a téglalap nem léphet ki ebből a területből (az offsetParent koordinátarendszerében)
+ *  grid: rácsméret, amihez a pozíció, illetve a mozgatott élek igazodnak
+ *  onStart, onMove, onEnd: a gesztus elején, minden lépésben és a végén meghívott függvények
+ */
+export interface PointerBehaviorOptions<T = Rect> {
+    axis?: 'x' | 'y';
+    containment?: Rect;
+    grid?: number;
+    onStart?: (value: T, event: PointerEvent) => void;
+    onMove?: (value: T, event: PointerEvent) => void;
+    onEnd?: (value: T, event: PointerEvent) => void;
+}
+
+/**
+ * A makeDraggable() beállításai
+ * @description
+ *  handles: a húzást indító elemek (alapértelmezett: maga az elem)
+ */
+export interface DraggableOptions extends PointerBehaviorOptions {
+    handles?: HTMLElement[];
+}
+
+/**
+ * Átméretező fogantyú iránya (égtájak szerint)
+ */
+export type ResizeHandle = 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'nw';
+
+/**
+ * A makeResizable() beállításai
+ * @description
+ *  handles: fogantyúk iránya és eleme (alapértelmezett: az elem széle)
+ *  edgeSize: fogantyúk nélkül az elem szélén ekkora sáv indítja az átméretezést (alapértelmezett: 8)
+ *  minSize: legkisebb méret (alapértelmezett: { w: 0, h: 0 })
+ *  maxSize: legnagyobb méret (alapértelmezett: nincs korlát)
+ */
+export interface ResizableOptions extends PointerBehaviorOptions {
+    handles?: Partial<Record<ResizeHandle, HTMLElement>>;
+    edgeSize?: number;
+    minSize?: { w: number, h: number };
+    maxSize?: { w: number, h: number };
+}
+
+/**
+ * A makeRotatable() beállításai
+ * @description
+ *  handles: a forgatást indító elemek (alapértelmezett: maga az elem)
+ *  step: a szög ennek többszöröseire igazodik (radián, 0: nincs igazítás)
+ *  onStart, onMove, onEnd: az elem szöge radiánban (képernyőn az óramutató járásával megegyező irányban nő)
+ */
+export interface RotatableOptions extends Pick<PointerBehaviorOptions<number>, 'onStart' | 'onMove' | 'onEnd'> {
+    handles?: HTMLElement[];
+    step?: number;
+}
+
+/**
+ * Egy folyamatban lévő gesztus
+ */
+interface PointerGesture {
+    move: (event: PointerEvent) => void;
+    end: (event: PointerEvent) => void;
+}
+
+/**
+ * Pointer Events alapú gesztusok kezelése pointer capture-rel (egér, érintés és toll)
+ * @param {array<HTMLElement>} targets - a gesztust indító elemek
+ * @param {function} begin - a gesztus kezelője vagy null, ha a pointerdown nem indít gesztust
+ * @param {boolean} [capture=false] - a pointerdown figyelése a capture fázisban (hogy megelőzze az elem többi kezelőjét)
+ * @return {function} az eseménykezelők eltávolítása
+ * @description
+ *  Egyszerre egy gesztus lehet aktív. A már kezelt (preventDefault-tal jelölt) pointerdown nem indít új gesztust,
+ *  így az elemen belüli fogantyúk megelőzik az elem húzását.
+ */
+const trackPointer = function(
+    targets: HTMLElement[],
+    begin: (event: PointerEvent, target: HTMLElement) => PointerGesture | null,
+    capture: boolean = false
+): () => void {
+    let active: { target: HTMLElement, pointerId: number, gesture: PointerGesture } | null = null;
+    const touchActions = targets.map(target => target.style.touchAction);
+
+    const detach = function(target: HTMLElement, pointerId: number): void {
+        target.removeEventListener('pointermove', onMove);
+        target.removeEventListener('pointerup', onEnd);
+        target.removeEventListener('pointercancel', onEnd);
+        target.removeEventListener('lostpointercapture', onEnd);
+        if (target.hasPointerCapture(pointerId)) {
+            target.releasePointerCapture(pointerId);
+        }
+    };
+    const onMove = function(event: PointerEvent): void {
+        if (active && event.pointerId === active.pointerId) {
+            event.preventDefault();
+            active.gesture.move(event);
+        }
+    };
+    const onEnd = function(event: PointerEvent): void {
+        if (!active || event.pointerId !== active.pointerId) {
+            return;
+        }
+        const { target, gesture } = active;
+        active = null;
+        detach(target, event.pointerId);
+        gesture.end(event);
+    };
+    const onDown = function(event: PointerEvent): void {
+        if (active || event.defaultPrevented || (event.pointerType === 'mouse' && event.button !== 0)) {
+            return;
+        }
+        const target = event.currentTarget as HTMLElement;
+        const gesture = begin(event, target);
+        if (!gesture) {
+            return;
+        }
         event.preventDefault();
         event.stopPropagation();
+        active = { target, pointerId: event.pointerId, gesture };
+        target.setPointerCapture(event.pointerId);
+        target.addEventListener('pointermove', onMove);
+        target.addEventListener('pointerup', onEnd);
+        target.addEventListener('pointercancel', onEnd);
+        target.addEventListener('lostpointercapture', onEnd);
+    };
+
+    targets.forEach((target) => {
+        target.addEventListener('pointerdown', onDown, { capture });
+        // különben érintésnél a böngésző görgetni kezd és pointercancel-lel megszakítja a gesztust
+        target.style.touchAction = 'none';
     });
+    return function() {
+        if (active) {
+            detach(active.target, active.pointerId);
+            active = null;
+        }
+        targets.forEach((target, i) => {
+            target.removeEventListener('pointerdown', onDown, { capture });
+            target.style.touchAction = touchActions[i];
+        });
+    };
 };
 
 /**
- * Kijelölés tiltása egy adott elemen
+ * Érték igazítása rácshoz
+ * @param {number} value
+ * @param {number} [grid] - rácsméret (0 vagy undefined esetén nincs igazítás)
+ * @return {number}
+ */
+const snapToGrid = function(value: number, grid?: number): number {
+    return grid ? Math.round(value / grid) * grid : value;
+};
+
+/**
+ * Elem téglalapja az offsetParent-hez képest és a stílusok beállításához szükséges eltérések
+ * @param {HTMLElement} element
+ * @return {object} {rect, frame} (frame: margó és a border-box és a width/height stílus különbsége)
+ */
+const measureElement = function(element: HTMLElement): { rect: Rect, frame: Rect } {
+    const style = window.getComputedStyle(element);
+    const rect = { x: element.offsetLeft, y: element.offsetTop, w: element.offsetWidth, h: element.offsetHeight };
+    return {
+        rect,
+        frame: {
+            x: parseFloat(style.marginLeft) || 0,
+            y: parseFloat(style.marginTop) || 0,
+            w: rect.w - (parseFloat(style.width) || 0),
+            h: rect.h - (parseFloat(style.height) || 0)
+        }
+    };
+};
+
+/**
+ * Elem húzhatóvá tétele
+ * @param {HTMLElement} element - pozicionált (pl. position: absolute) elem
+ * @param {DraggableOptions} [options] - beállítások
+ * @return {function} a húzhatóság megszüntetése (minden eseménykezelő eltávolítása)
+ * @example
+ *  const dispose = makeDraggable(panel, { handles: [panelHeader], containment: { x: 0, y: 0, w: 800, h: 600 }, grid: 10 });
+ */
+export const makeDraggable = function(element: HTMLElement, options: DraggableOptions = {}): () => void {
+    return trackPointer(options.handles ?? [element], (down) => {
+        const { rect: start, frame } = measureElement(element);
+        let rect = { ...start };
+        options.onStart?.({ ...rect }, down);
+        return {
+            move: function(event) {
+                let x = options.axis === 'y' ? start.x : snapToGrid(start.x + event.clientX - down.clientX, options.grid);
+                let y = options.axis === 'x' ? start.y : snapToGrid(start.y + event.clientY - down.clientY, options.grid);
+                if (options.containment) {
+                    const { x: cx, y: cy, w: cw, h: ch } = options.containment;
+                    x = Math.max(cx, Math.min(x, cx + cw - start.w));
+                    y = Math.max(cy, Math.min(y, cy + ch - start.h));
+                }
+                rect = { x, y, w: start.w, h: start.h };
+                element.style.left = `${x - frame.x}px`;
+                element.style.top = `${y - frame.y}px`;
+                options.onMove?.({ ...rect }, event);
+            },
+            end: function(event) {
+                options.onEnd?.({ ...rect }, event);
+            }
+        };
+    });
+};
+
+/**
+ * Elem átméretezhetővé tétele
+ * @param {HTMLElement} element - pozicionált (pl. position: absolute) elem
+ * @param {ResizableOptions} [options] - beállítások
+ * @return {function} az átméretezhetőség megszüntetése (minden eseménykezelő eltávolítása)
+ * @description
+ *  Csak a fogantyú irányába eső élek mozognak, a szemközti élek helyben maradnak.
+ * @example
+ *  const dispose = makeResizable(panel, { handles: { se: corner }, minSize: { w: 100, h: 50 }, maxSize: { w: 800, h: 600 } });
+ */
+export const makeResizable = function(element: HTMLElement, options: ResizableOptions = {}): () => void {
+    const handles = Object.entries(options.handles ?? {}) as [ResizeHandle, HTMLElement][];
+    const edgeSize = options.edgeSize ?? 8;
+    const minSize = options.minSize ?? { w: 0, h: 0 };
+    const maxSize = options.maxSize ?? { w: Infinity, h: Infinity };
+
+    const getHandle = function(event: PointerEvent, target: HTMLElement): string {
+        if (handles.length) {
+            return handles.find(([, handle]) => handle === target)?.[0] ?? '';
+        }
+        const bounds = element.getBoundingClientRect();
+        const x = event.clientX - bounds.left;
+        const y = event.clientY - bounds.top;
+        return (y < edgeSize ? 'n' : y > bounds.height - edgeSize ? 's' : '') +
+            (x < edgeSize ? 'w' : x > bounds.width - edgeSize ? 'e' : '');
+    };
+
+    return trackPointer(handles.length ? handles.map(([, handle]) => handle) : [element], (down, target) => {
+        const handle = getHandle(down, target);
+        const edges = {
+            left: options.axis !== 'y' && handle.includes('w'),
+            right: options.axis !== 'y' && handle.includes('e'),
+            top: options.axis !== 'x' && handle.includes('n'),
+            bottom: options.axis !== 'x' && handle.includes('s')
+        };
+        if (!edges.left && !edges.right && !edges.top && !edges.bottom) {
+            return null;
+        }
+        const { rect: start, frame } = measureElement(element);
+        // élkoordinátákkal, mert a végtelen téglalap jobb és alsó éle -Infinity + Infinity (NaN) lenne
+        const area = options.containment;
+        const bounds = area ?
+            { x1: area.x, y1: area.y, x2: area.x + area.w, y2: area.y + area.h } :
+            { x1: -Infinity, y1: -Infinity, x2: Infinity, y2: Infinity };
+        let rect = { ...start };
+        options.onStart?.({ ...rect }, down);
+        return {
+            move: function(event) {
+                const dx = event.clientX - down.clientX;
+                const dy = event.clientY - down.clientY;
+                let [x1, y1, x2, y2] = [start.x, start.y, start.x + start.w, start.y + start.h];
+                if (edges.left) {
+                    x1 = Math.min(Math.max(snapToGrid(x1 + dx, options.grid), bounds.x1, x2 - maxSize.w), x2 - minSize.w);
+                }
+                if (edges.right) {
+                    x2 = Math.max(Math.min(snapToGrid(x2 + dx, options.grid), bounds.x2, x1 + maxSize.w), x1 + minSize.w);
+                }
+                if (edges.top) {
+                    y1 = Math.min(Math.max(snapToGrid(y1 + dy, options.grid), bounds.y1, y2 - maxSize.h), y2 - minSize.h);
+                }
+                if (edges.bottom) {
+                    y2 = Math.max(Math.min(snapToGrid(y2 + dy, options.grid), bounds.y2, y1 + maxSize.h), y1 + minSize.h);
+                }
+                rect = { x: x1, y: y1, w: x2 - x1, h: y2 - y1 };
+                element.style.left = `${rect.x - frame.x}px`;
+                element.style.top = `${rect.y - frame.y}px`;
+                element.style.width = `${rect.w - frame.w}px`;
+                element.style.height = `${rect.h - frame.h}px`;
+                options.onMove?.({ ...rect }, event);
+            },
+            end: function(event) {
+                options.onEnd?.({ ...rect }, event);
+            }
+        };
+    }, true);
+};
+
+/**
+ * Elem forgathatóvá tétele a középpontja körül (a CSS rotate tulajdonsággal)
  * @param {HTMLElement} element - az adott elem
+ * @param {RotatableOptions} [options] - beállítások
+ * @return {function} a forgathatóság megszüntetése (minden eseménykezelő eltávolítása)
+ * @example
+ *  const dispose = makeRotatable(image, { handles: [rotateHandle], step: Math.PI / 12 });
  */
-export const selectProtection = function(element: HTMLElement) {
-    element.addEventListener('selectstart', (event) => {
-        event.preventDefault();
+export const makeRotatable = function(element: HTMLElement, options: RotatableOptions = {}): () => void {
+    const units: Record<string, number> = { deg: Math.PI / 180, rad: 1, turn: 2 * Math.PI, grad: Math.PI / 200 };
+    return trackPointer(options.handles ?? [element], (down) => {
+        const rotate = window.getComputedStyle(element).rotate.match(/(-?[\d.]+)(deg|rad|turn|grad)$/);
+        const start = rotate ? Number(rotate[1]) * units[rotate[2]] : 0;
+        const bounds = element.getBoundingClientRect();
+        const center = { x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 };
+        const pointerAngle = (event: PointerEvent) => Math.atan2(event.clientY - center.y, event.clientX - center.x);
+        let angle = start;
+        options.onStart?.(angle, down);
+        return {
+            move: function(event) {
+                angle = start + pointerAngle(event) - pointerAngle(down);
+                if (options.step) {
+                    angle = Math.round(angle / options.step) * options.step;
+                }
+                element.style.rotate = `${angle}rad`;
+                options.onMove?.(angle, event);
+            },
+            end: function(event) {
+                options.onEnd?.(angle, event);
+            }
+        };
     });
-    element.setAttribute('unselectable', 'on');
-    element.style.userSelect = 'none';
 };
@@ -59,6 +59,7 @@ export interface Rect3D {
     z: number;
     w: number;
     h: number;
+    d: number;
 }
 
 export interface RectEdges {
@@ -68,43 +69,54 @@ export interface RectEdges {
     y2: number;
 }
 
+/**
+ * Szögek értelmezése
+ * @description
+ *  screen-down: a getVector() és getCoord() eredeti konvenciója: x = -length·cos(angle), y = length·sin(angle)
+ *      (lefelé mutató y tengely esetén angle = π/2 lefelé, 0 balra, π jobbra mutat)
+ *  math: az x tengelytől az y tengely felé mért szög: x = length·cos(angle), y = length·sin(angle) (mint a Math.atan2()
+ *      és a canvas)
+ *  A két konvenció ellentétes forgásirányú.
+ */
+export type AngleConvention = 'screen-down' | 'math';
+
 /**
  * Vektor meghatározása {x,y} => {length,angle}
  * @param {object} components - vektor x és y irányú komponense
- * @return {object} vektor nagysága és iránya (angle: lefelé mutató tengellyel bezárt szög)
+ * @param {string} [convention='screen-down'] - a szög értelmezése
+ * @return {object} vektor nagysága és iránya (angle: -π és π közötti szög, nullvektor esetén 0)
  */
-export const getVector = function(components: Coord): Vector {
+export const getVector = function(components: Coord, convention: AngleConvention = 'screen-down'): Vector {
+    const x = convention === 'math' ? components.x : -components.x;
     return {
         length: Math.sqrt(components.x * components.x + components.y * components.y),
-        angle: Math.atan(components.x / components.y) + Math.PI / 2
+        angle: Math.atan2(components.y, x || 0)
     };
 };
 
 /**
  * Koordináta meghatározása {length,angle} => {x,y}
- * @param vector - vektor nagysága és iránya (angle: lefelé mutató tengellyel bezárt szög)
+ * @param vector - vektor nagysága és iránya
+ * @param {string} [convention='screen-down'] - a szög értelmezése
  * @return {object} vektor x és y irányú komponense
  */
-export const getCoord = function(vector: Vector): Coord {
-    const angle = vector.angle - Math.PI / 2;
+export const getCoord = function(vector: Vector, convention: AngleConvention = 'screen-down'): Coord {
+    const x = vector.length * Math.cos(vector.angle);
     return {
-        x: vector.length * Math.sin(angle),
-        y: vector.length * Math.cos(angle)
+        x: convention === 'math' ? x : -x,
+        y: vector.length * Math.sin(vector.angle)
     };
 };
 
-// /**
-//  * Vektorok összege
-//  * @param {object} a - vektor
-//  * @param {object} b - vektor
-//  * @return {object} összeg
-//  */
-// addVectors = function(a: Vector, b: Vector): Vector {
-//     const ac = getCoord(a);
-//     const bc = getCoord(b);
-//     const addition = addCoords(ac, bc);
-//     return getVector(addition);
-// },
+/**
+ * Vektorok összege
+ * @param {array} vectors - vektorok
+ * @param {string} [convention='screen-down'] - a szög értelmezése
+ * @return {object} összeg
+ */
+export const addVectors = function(vectors: Vector[], convention: AngleConvention = 'screen-down'): Vector {
+    return getVector(addCoords(...vectors.map(vector => getCoord(vector, convention))), convention);
+};
 
 /**
  * Koordináták vektoriális összege
@@ -123,6 +135,119 @@ export const addCoords = function(...coords: Coord[]): Coord {
     return { x, y };
 };
 
+/**
+ * Koordináták különbsége
+ * @param {object} a - {x,y}
+ * @param {object} b - {x,y}
+ * @return {object} a - b
+ */
+export const subtractCoords = function(a: Coord, b: Coord): Coord {
+    return { x: a.x - b.x, y: a.y - b.y };
+};
+
+/**
+ * Vektor szorzása számmal
+ * @param {object} coord - {x,y}
+ * @param {number} factor - szorzó
+ * @return {object}
+ */
+export const scaleCoord = function(coord: Coord, factor: number): Coord {
+    return { x: coord.x * factor, y: coord.y * factor };
+};
+
+/**
+ * Vektorok skaláris szorzata
+ * @param {object} a - {x,y}
+ * @param {object} b - {x,y}
+ * @return {number}
+ */
+export const dot = function(a: Coord, b: Coord): number {
+    return a.x * b.x + a.y * b.y;
+};
+
+/**
+ * Vektorok vektoriális szorzatának z komponense
+ * @param {object} a - {x,y}
+ * @param {object} b - {x,y}
+ * @return {number} pozitív, ha b az a-tól a math konvenció szerinti pozitív irányban van (képernyőn óramutató szerint)
+ */
+export const cross = function(a: Coord, b: Coord): number {
+    return a.x * b.y - a.y * b.x;
+};
+
+/**
+ * Egységvektor
+ * @param {object} coord - {x,y}
+ * @return {object} azonos irányú, 1 hosszú vektor (nullvektor esetén nullvektor)
+ */
+export const normalize = function(coord: Coord): Coord {
+    const length = Math.sqrt(dot(coord, coord));
+    return length ? scaleCoord(coord, 1 / length) : { x: 0, y: 0 };
+};
+
+/**
+ * Vektor merőleges vetülete egy másik vektorra
+ * @param {object} coord - {x,y}
+ * @param {object} onto - {x,y}
+ * @return {object} onto irányú vektor (onto nullvektor esetén nullvektor)
+ */
+export const projectCoord = function(coord: Coord, onto: Coord): Coord {
+    const lengthSquare = dot(onto, onto);
+    return lengthSquare ? scaleCoord(onto, dot(coord, onto) / lengthSquare) : { x: 0, y: 0 };
+};
+
+/**
+ * Vektor tükrözése egy felületről
+ * @param {object} coord - {x,y} (pl. sebesség)
+ * @param {object} normal - a felület normálvektora (nem kell egységnyinek lennie)
+ * @return {object} visszavert vektor
+ */
+export const reflectCoord = function(coord: Coord, normal: Coord): Coord {
+    return subtractCoords(coord, scaleCoord(projectCoord(coord, normal), 2));
+};
+
+/**
+ * Pont elforgatása
+ * @param {object} coord - {x,y}
+ * @param {number} angle - szög (radián)
+ * @param {object} [pivot={x:0,y:0}] - forgatás középpontja
+ * @param {string} [convention='screen-down'] - a szög értelmezése (a getVector() szerinti szög angle-lel nő)
+ * @return {object}
+ */
+export const rotateCoord = function(
+    coord: Coord, angle: number, pivot: Coord = { x: 0, y: 0 }, convention: AngleConvention = 'screen-down'
+): Coord {
+    const sin = Math.sin(convention === 'math' ? angle : -angle);
+    const cos = Math.cos(angle);
+    const dx = coord.x - pivot.x;
+    const dy = coord.y - pivot.y;
+    return {
+        x: pivot.x + dx * cos - dy * sin,
+        y: pivot.y + dx * sin + dy * cos
+    };
+};
+
+/**
+ * Lineáris interpoláció két pont között
+ * @param {object} a - {x,y}
+ * @param {object} b - {x,y}
+ * @param {number} t - 0: a, 1: b
+ * @return {object}
+ */
+export const lerpCoords = function(a: Coord, b: Coord, t: number): Coord {
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+};
+
+/**
+ * Két vektor által bezárt szög
+ * @param {object} a - {x,y}
+ * @param {object} b - {x,y}
+ * @return {number} 0 és π közötti szög (konvenciótól független)
+ */
+export const getAngleBetween = function(a: Coord, b: Coord): number {
+    return Math.atan2(Math.abs(cross(a, b)), dot(a, b));
+};
+
 /**
  * Téglalap {x,y,w,h} átkonvertalása {x1,y1,x2,y2} alakúra
  * @param {object} rect - téglalap
@@ -219,6 +344,32 @@ export const getRectTouching = function(rect1: Rect, rect2: Rect, pixel: number
     return touching;
 };
 
+/**
+ * Két téglalap összes érintkezési vonala
+ * @param {object} rect1 - {x,y,w,h}
+ * @param {object} rect2 - {x,y,w,h}
+ * @param {number} [pixel=0] - élek megengedett távolsága
+ * @return {array} [{c1,c2,dir}] rect1 érintkező oldalai (dir)
+ * @description
+ *  A getRectTouching()-gal ellentétben minden érintkező oldalt visszaad (pl. egy kis téglalap két oldala is érintheti
+ *  a nagyot a pixel tűréssel), de csak azokat, amelyeknek van közös szakasza vagy pontja.
+ */
+export const getRectTouchings = function(rect1: Rect, rect2: Rect, pixel: number = 0): LinearTouch[] {
+    const r1 = rectToEdges(rect1);
+    const r2 = rectToEdges(rect2);
+    const vertical = { c1: Math.max(r1.y1, r2.y1), c2: Math.min(r1.y2, r2.y2) };
+    const horizontal = { c1: Math.max(r1.x1, r2.x1), c2: Math.min(r1.x2, r2.x2) };
+    const sides: [number, RectangularLine, Direction][] = [
+        [r1.x1 - r2.x2, vertical, Direction.Left],
+        [r1.x2 - r2.x1, vertical, Direction.Right],
+        [r1.y1 - r2.y2, horizontal, Direction.Top],
+        [r1.y2 - r2.y1, horizontal, Direction.Bottom]
+    ];
+    return sides
+        .filter(([gap, line]) => Math.abs(gap) <= pixel && line.c1 <= line.c2)
+        .map(([, line, dir]) => ({ ...line, dir }));
+};
+
 /**
  * Két téglalap metszete üres-e
  * @param {object} rect1 - {x,y,w,h}
@@ -277,6 +428,28 @@ export const getRectIntersection = function(rect1: Rect, rect2: Rect): Rect {
     }
 };
 
+/**
+ * Téglalap különbsége egy másik téglalappal
+ * @param {object} rect1 - {x,y,w,h}
+ * @param {object} rect2 - a kivonandó téglalap {x,y,w,h}
+ * @return {array} legfeljebb négy, egymást át nem fedő téglalap (felső és alsó sáv teljes szélességben, bal és jobb oldali rész)
+ * @description
+ *  Ha a téglalapok nem fedik át egymást, az eredmény rect1 másolata, ha rect2 lefedi rect1-et, üres tömb.
+ */
+export const subtractRect = function(rect1: Rect, rect2: Rect): Rect[] {
+    const cut = getRectIntersection(rect1, rect2);
+    if (!cut.w || !cut.h) {
+        return rect1.w > 0 && rect1.h > 0 ? [{ ...rect1 }] : [];
+    }
+    const { x1, y1, x2, y2 } = rectToEdges(rect1);
+    return [
+        { x: x1, y: y1, w: x2 - x1, h: cut.y - y1 },
+        { x: x1, y: cut.y, w: cut.x - x1, h: cut.h },
+        { x: cut.x + cut.w, y: cut.y, w: x2 - cut.x - cut.w, h: cut.h },
+        { x: x1, y: cut.y + cut.h, w: x2 - x1, h: y2 - cut.y - cut.h }
+    ].filter(rect => rect.w > 0 && rect.h > 0);
+};
+
 /**
  * Két téglalap metszete túllépi-e a pixelben megadott értékhatárt
  * @param {object} rect1
@@ -311,3 +484,738 @@ export const isPointInsideRectangle = function(point: Coord, rectangle: Rect): b
         rectangle.y < point.y && rectangle.y + rectangle.h > point.y
     );
 };
+
+/**
+ * Szakasz hossza
+ * @param {object} line - {x1,y1,x2,y2}
+ * @return {number}
+ */
+export const getLineLength = function(line: Line): number {
+    return distance({ x: line.x1, y: line.y1 }, { x: line.x2, y: line.y2 });
+};
+
+/**
+ * Szakasz iránya
+ * @param {object} line - {x1,y1,x2,y2}
+ * @param {string} [convention='screen-down'] - a szög értelmezése
+ * @return {number} a getVector()-ral azonos konvencióban (getCoord({ length, angle }) a szakasz irányvektora)
+ */
+export const getLineAngle = function(line: Line, convention: AngleConvention = 'screen-down'): number {
+    return getVector({ x: line.x2 - line.x1, y: line.y2 - line.y1 }, convention).angle;
+};
+
+/**
+ * Szakasz legközelebbi pontja egy ponthoz
+ * @param {object} point - {x,y}
+ * @param {object} line - {x1,y1,x2,y2}
+ * @return {object} {point: a szakasz legközelebbi pontja, distance: távolsága a ponttól}
+ */
+export const getClosestPointOnLine = function(point: Coord, line: Line): { point: Coord, distance: number } {
+    const dx = line.x2 - line.x1;
+    const dy = line.y2 - line.y1;
+    const lengthSquare = dx * dx + dy * dy;
+    const t = lengthSquare ?
+        Math.max(0, Math.min(1, ((point.x - line.x1) * dx + (point.y - line.y1) * dy) / lengthSquare)) :
+        0;
+    const closest = { x: line.x1 + t * dx, y: line.y1 + t * dy };
+    return { point: closest, distance: distance(point, closest) };
+};
+
+/**
+ * Két tetszőleges szakasz metszete
+ * @param {object} line1 - {x1,y1,x2,y2}
+ * @param {object} line2 - {x1,y1,x2,y2}
+ * @return {object | null} metszéspont {x,y}, egy egyenesre eső szakaszok közös része {x1,y1,x2,y2} vagy null
+ * @description
+ *  A végpontok is a szakaszhoz tartoznak, így az érintkező szakaszok metszete a közös végpont.
+ */
+export const getSegmentIntersection = function(line1: Line, line2: Line): Coord | Line | null {
+    const r = { x: line1.x2 - line1.x1, y: line1.y2 - line1.y1 };
+    const s = { x: line2.x2 - line2.x1, y: line2.y2 - line2.y1 };
+    const qp = { x: line2.x1 - line1.x1, y: line2.y1 - line1.y1 };
+    if (!dot(r, r) || !dot(s, s)) {
+        // legalább az egyik szakasz egyetlen pont
+        const [point, line] = dot(r, r) ? [{ x: line2.x1, y: line2.y1 }, line1] : [{ x: line1.x1, y: line1.y1 }, line2];
+        return getClosestPointOnLine(point, line).distance ? null : point;
+    }
+    const denominator = cross(r, s);
+    if (!denominator) {
+        if (cross(qp, r)) {
+            // párhuzamos
+            return null;
+        }
+        const t0 = dot(qp, r) / dot(r, r);
+        const t1 = t0 + dot(s, r) / dot(r, r);
+        const from = Math.max(0, Math.min(t0, t1));
+        const to = Math.min(1, Math.max(t0, t1));
+        if (from > to) {
+            return null;
+        }
+        const start = { x: line1.x1 + from * r.x, y: line1.y1 + from * r.y };
+        if (from === to) {
+            return start;
+        }
+        return { x1: start.x, y1: start.y, x2: line1.x1 + to * r.x, y2: line1.y1 + to * r.y };
+    }
+    const t = cross(qp, s) / denominator;
+    const u = cross(qp, r) / denominator;
+    if (t < 0 || t > 1 || u < 0 || u > 1) {
+        return null;
+    }
+    return { x: line1.x1 + t * r.x, y: line1.y1 + t * r.y };
+};
+
+/**
+ * Szakasz téglalapba eső része (Liang–Barsky)
+ * @param {object} line - {x1,y1,x2,y2}
+ * @param {object} rect - {x,y,w,h}
+ * @return {object | null} {x1,y1,x2,y2} vagy null, ha a szakasz elkerüli a téglalapot (az élek a téglalaphoz tartoznak)
+ */
+export const clipLineToRect = function(line: Line, rect: Rect): Line | null {
+    const edges = rectToEdges(rect);
+    const dx = line.x2 - line.x1;
+    const dy = line.y2 - line.y1;
+    const p = [-dx, dx, -dy, dy];
+    const q = [line.x1 - edges.x1, edges.x2 - line.x1, line.y1 - edges.y1, edges.y2 - line.y1];
+    let t0 = 0;
+    let t1 = 1;
+    for (let i = 0; i < 4; i++) {
+        if (!p[i]) {
+            if (q[i] < 0) {
+                return null;
+            }
+            continue;
+        }
+        const t = q[i] / p[i];
+        if (p[i] < 0) {
+            t0 = Math.max(t0, t);
+        }
+        else {
+            t1 = Math.min(t1, t);
+        }
+    }
+    if (t0 > t1) {
+        return null;
+    }
+    return {
+        x1: line.x1 + t0 * dx,
+        y1: line.y1 + t0 * dy,
+        x2: line.x1 + t1 * dx,
+        y2: line.y1 + t1 * dy
+    };
+};
+
+/**
+ * Sokszög csúcsai sorrendben (az utolsó csúcs után az első következik)
+ */
+export type Polygon = Coord[];
+
+/**
+ * Kitöltési szabály önmagát metsző sokszögekhez (mint a canvas és az SVG fill-rule)
+ */
+export type FillRule = 'evenodd' | 'nonzero';
+
+/**
+ * Pont benne van-e egy sokszögben
+ * @param {object} point - {x,y}
+ * @param {array} polygon - csúcsok
+ * @param {string} [rule='evenodd'] - kitöltési szabály: 'evenodd' vagy 'nonzero'
+ * @return {boolean}
+ * @description
+ *  Az isPointInsideRectangle()-hez hasonlóan az éleken lévő pont nincs benne a sokszögben.
+ */
+export const isPointInsidePolygon = function(point: Coord, polygon: Polygon, rule: FillRule = 'evenodd'): boolean {
+    let winding = 0;
+    let crossings = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i];
+        const b = polygon[(i + 1) % polygon.length];
+        if (!getClosestPointOnLine(point, { x1: a.x, y1: a.y, x2: b.x, y2: b.y }).distance) {
+            return false;
+        }
+        if ((a.y <= point.y) !== (b.y <= point.y)) {
+            const side = cross(subtractCoords(b, a), subtractCoords(point, a));
+            if ((side > 0) === (b.y > a.y)) {
+                // az él a ponttól jobbra metszi a vízszintes félegyenest
+                crossings++;
+                winding += b.y > a.y ? 1 : -1;
+            }
+        }
+    }
+    return rule === 'nonzero' ? winding !== 0 : crossings % 2 === 1;
+};
+
+/**
+ * Sokszög előjeles területe
+ * @param {array} polygon - csúcsok
+ * @return {number} pozitív, ha a csúcsok képernyőn (lefelé mutató y tengellyel) az óramutató járásával megegyezően követik egymást
+ */
+export const getPolygonArea = function(polygon: Polygon): number {
+    return polygon.reduce(
+        (acc, a, i) => {
+            const b = polygon[(i + 1) % polygon.length];
+            return acc + (a.x * b.y - b.x * a.y) / 2;
+        },
+        0
+    );
+};
+
+/**
+ * Sokszög súlypontja
+ * @param {array} polygon - csúcsok
+ * @return {object} {x,y}
+ * @description
+ *  Nulla területű (pl. egy egyenesre eső) csúcsok esetén a csúcsok átlaga.
+ */
+export const getPolygonCentroid = function(polygon: Polygon): Coord {
+    const area = getPolygonArea(polygon);
+    if (!area) {
+        const sum = addCoords(...polygon);
+        return polygon.length ? { x: sum.x / polygon.length, y: sum.y / polygon.length } : { x: 0, y: 0 };
+    }
+    const centroid = polygon.reduce(
+        (acc, a, i) => {
+            const b = polygon[(i + 1) % polygon.length];
+            const term = cross(a, b);
+            return { x: acc.x + (a.x + b.x) * term, y: acc.y + (a.y + b.y) * term };
+        },
+        { x: 0, y: 0 }
+    );
+    return { x: centroid.x / (6 * area), y: centroid.y / (6 * area) };
+};
+
+/**
+ * Sokszög kerülete
+ * @param {array} polygon - csúcsok
+ * @return {number}
+ */
+export const getPolygonPerimeter = function(polygon: Polygon): number {
+    if (polygon.length < 2) {
+        return 0;
+    }
+    return polygon.reduce((acc, a, i) => acc + distance(a, polygon[(i + 1) % polygon.length]), 0);
+};
+
+/**
+ * Sokszöget befoglaló téglalap
+ * @param {array} polygon - csúcsok
+ * @return {object} {x,y,w,h} (üres sokszög esetén nulla téglalap)
+ */
+export const getPolygonBounds = function(polygon: Polygon): Rect {
+    if (!polygon.length) {
+        return { x: 0, y: 0, w: 0, h: 0 };
+    }
+    const xs = polygon.map(point => point.x);
+    const ys = polygon.map(point => point.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+};
+
+/**
+ * Pontok konvex burka (Andrew-féle monoton lánc)
+ * @param {array} points - pontok
+ * @return {array} a burok csúcsai az egy egyenesre eső pontok nélkül, a legkisebb x (és y) koordinátájú ponttól kezdve
+ */
+export const getConvexHull = function(points: Coord[]): Polygon {
+    const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y)
+        .filter((point, i, arr) => !i || point.x !== arr[i - 1].x || point.y !== arr[i - 1].y);
+    if (sorted.length < 3) {
+        return sorted;
+    }
+    const turn = (o: Coord, a: Coord, b: Coord): number => cross(subtractCoords(a, o), subtractCoords(b, o));
+    const chain = function(list: Coord[]): Coord[] {
+        const hull: Coord[] = [];
+        list.forEach((point) => {
+            while (hull.length >= 2 && turn(hull[hull.length - 2], hull[hull.length - 1], point) <= 0) {
+                hull.pop();
+            }
+            hull.push(point);
+        });
+        hull.pop();
+        return hull;
+    };
+    return [...chain(sorted), ...chain([...sorted].reverse())];
+};
+
+/**
+ * Töröttvonal egyszerűsítése (Ramer–Douglas–Peucker)
+ * @param {array} points - pontok (pl. szabadkézi rajz)
+ * @param {number} tolerance - a kihagyott pontok megengedett távolsága az egyszerűsített vonaltól
+ * @return {array} a megtartott pontok (a végpontok mindig megmaradnak)
+ */
+export const simplifyPolygon = function(points: Coord[], tolerance: number): Coord[] {
+    if (points.length < 3) {
+        return [...points];
+    }
+    const first = points[0];
+    const last = points[points.length - 1];
+    let maxDistance = -1;
+    let index = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+        const d = getClosestPointOnLine(points[i], { x1: first.x, y1: first.y, x2: last.x, y2: last.y }).distance;
+        if (d > maxDistance) {
+            maxDistance = d;
+            index = i;
+        }
+    }
+    if (maxDistance <= tolerance) {
+        return [first, last];
+    }
+    return [
+        ...simplifyPolygon(points.slice(0, index + 1), tolerance).slice(0, -1),
+        ...simplifyPolygon(points.slice(index), tolerance)
+    ];
+};
+
+/**
+ * Kör
+ * @description
+ *  x, y: középpont, r: sugár
+ */
+export interface Circle {
+    x: number;
+    y: number;
+    r: number;
+}
+
+/**
+ * Ellipszis
+ * @description
+ *  x, y: középpont, rx, ry: féltengelyek, rotation: elforgatás (radián, képernyőn az óramutató járásával megegyezően)
+ */
+export interface Ellipse {
+    x: number;
+    y: number;
+    rx: number;
+    ry: number;
+    rotation?: number;
+}
+
+/**
+ * Pont benne van-e egy körben
+ * @param {object} point - {x,y}
+ * @param {object} circle - {x,y,r}
+ * @return {boolean} (az isPointInsideRectangle()-höz hasonlóan a körvonalon lévő pont nincs benne)
+ */
+export const isPointInsideCircle = function(point: Coord, circle: Circle): boolean {
+    return distance(point, circle) < circle.r;
+};
+
+/**
+ * Pont benne van-e egy ellipszisben
+ * @param {object} point - {x,y}
+ * @param {object} ellipse - {x,y,rx,ry,rotation}
+ * @return {boolean} (a határvonalon lévő pont nincs benne)
+ */
+export const isPointInsideEllipse = function(point: Coord, ellipse: Ellipse): boolean {
+    if (ellipse.rx <= 0 || ellipse.ry <= 0) {
+        return false;
+    }
+    const angle = -(ellipse.rotation ?? 0);
+    const dx = point.x - ellipse.x;
+    const dy = point.y - ellipse.y;
+    const u = (dx * Math.cos(angle) - dy * Math.sin(angle)) / ellipse.rx;
+    const v = (dx * Math.sin(angle) + dy * Math.cos(angle)) / ellipse.ry;
+    return u * u + v * v < 1;
+};
+
+/**
+ * Kört befoglaló téglalap
+ * @param {object} circle - {x,y,r}
+ * @return {object} {x,y,w,h}
+ */
+export const getCircleBounds = function(circle: Circle): Rect {
+    return { x: circle.x - circle.r, y: circle.y - circle.r, w: 2 * circle.r, h: 2 * circle.r };
+};
+
+/**
+ * Ellipszist befoglaló téglalap
+ * @param {object} ellipse - {x,y,rx,ry,rotation}
+ * @return {object} {x,y,w,h} (elforgatott ellipszis esetén is a legkisebb tengelyirányú téglalap)
+ */
+export const getEllipseBounds = function(ellipse: Ellipse): Rect {
+    const cos = Math.cos(ellipse.rotation ?? 0);
+    const sin = Math.sin(ellipse.rotation ?? 0);
+    const w = Math.sqrt(Math.pow(ellipse.rx * cos, 2) + Math.pow(ellipse.ry * sin, 2));
+    const h = Math.sqrt(Math.pow(ellipse.rx * sin, 2) + Math.pow(ellipse.ry * cos, 2));
+    return { x: ellipse.x - w, y: ellipse.y - h, w: 2 * w, h: 2 * h };
+};
+
+/**
+ * Két kör metszete üres-e
+ * @param {object} circle1 - {x,y,r}
+ * @param {object} circle2 - {x,y,r}
+ * @return {boolean} true, ha van metszetük (az isRectIntersection()-höz hasonlóan az érintkezés is metszet)
+ */
+export const isCircleIntersection = function(circle1: Circle, circle2: Circle): boolean {
+    return distance(circle1, circle2) <= circle1.r + circle2.r;
+};
+
+/**
+ * Két körvonal metszéspontjai
+ * @param {object} circle1 - {x,y,r}
+ * @param {object} circle2 - {x,y,r}
+ * @return {array} 0, 1 (érintkezés) vagy 2 pont (egybeeső körök esetén üres)
+ */
+export const getCircleIntersectionPoints = function(circle1: Circle, circle2: Circle): Coord[] {
+    const d = distance(circle1, circle2);
+    if (!d || d > circle1.r + circle2.r || d < Math.abs(circle1.r - circle2.r)) {
+        return [];
+    }
+    // a középpontokat összekötő szakaszon a húr talppontja és a húr fele
+    const a = (d * d + circle1.r * circle1.r - circle2.r * circle2.r) / (2 * d);
+    const h = Math.sqrt(Math.max(0, circle1.r * circle1.r - a * a));
+    const unit = scaleCoord(subtractCoords(circle2, circle1), 1 / d);
+    const base = addCoords({ x: circle1.x, y: circle1.y }, scaleCoord(unit, a));
+    if (!h) {
+        return [base];
+    }
+    return [
+        { x: base.x - unit.y * h, y: base.y + unit.x * h },
+        { x: base.x + unit.y * h, y: base.y - unit.x * h }
+    ];
+};
+
+/**
+ * Kör és téglalap metszete üres-e
+ * @param {object} circle - {x,y,r}
+ * @param {object} rect - {x,y,w,h}
+ * @return {boolean} true, ha van metszetük (az érintkezés is metszet)
+ */
+export const isCircleRectIntersection = function(circle: Circle, rect: Rect): boolean {
+    const edges = rectToEdges(rect);
+    const closest = {
+        x: Math.max(edges.x1, Math.min(circle.x, edges.x2)),
+        y: Math.max(edges.y1, Math.min(circle.y, edges.y2))
+    };
+    return distance(circle, closest) <= circle.r;
+};
+
+/**
+ * Kör és szakasz metszete üres-e
+ * @param {object} circle - {x,y,r}
+ * @param {object} line - {x1,y1,x2,y2}
+ * @return {boolean} true, ha a szakasz a körlapot metszi vagy érinti (a körön belüli szakasz is metszi)
+ */
+export const isCircleLineIntersection = function(circle: Circle, line: Line): boolean {
+    return getClosestPointOnLine(circle, line).distance <= circle.r;
+};
+
+/**
+ * Szakasz és körvonal metszéspontjai
+ * @param {object} circle - {x,y,r}
+ * @param {object} line - {x1,y1,x2,y2}
+ * @return {array} 0, 1 vagy 2 pont a szakasz kezdőpontjától távolodva
+ */
+export const getCircleLineIntersectionPoints = function(circle: Circle, line: Line): Coord[] {
+    const d = { x: line.x2 - line.x1, y: line.y2 - line.y1 };
+    const f = { x: line.x1 - circle.x, y: line.y1 - circle.y };
+    const a = dot(d, d);
+    const b = 2 * dot(f, d);
+    const c = dot(f, f) - circle.r * circle.r;
+    const discriminant = b * b - 4 * a * c;
+    if (!a || discriminant < 0) {
+        return [];
+    }
+    const root = Math.sqrt(discriminant);
+    return [...new Set([(-b - root) / (2 * a), (-b + root) / (2 * a)])]
+        .filter(t => t >= 0 && t <= 1)
+        .map(t => ({ x: line.x1 + t * d.x, y: line.y1 + t * d.y }));
+};
+
+/**
+ * Egy pontból a körhöz húzott érintők érintési pontjai
+ * @param {object} circle - {x,y,r}
+ * @param {object} point - {x,y}
+ * @return {array} 2 pont, ha a pont a körön kívül van, 1 (maga a pont), ha a körvonalon, egyébként üres
+ */
+export const getCircleTangentPoints = function(circle: Circle, point: Coord): Coord[] {
+    const d = distance(circle, point);
+    if (d < circle.r || !d) {
+        return [];
+    }
+    if (d === circle.r) {
+        return [{ x: point.x, y: point.y }];
+    }
+    const unit = scaleCoord(subtractCoords(point, circle), 1 / d);
+    const cos = circle.r / d;
+    const sin = Math.sqrt(1 - cos * cos);
+    return [
+        { x: circle.x + circle.r * (unit.x * cos - unit.y * sin), y: circle.y + circle.r * (unit.x * sin + unit.y * cos) },
+        { x: circle.x + circle.r * (unit.x * cos + unit.y * sin), y: circle.y + circle.r * (unit.y * cos - unit.x * sin) }
+    ];
+};
+
+/**
+ * Ütközésvizsgálatban használható alakzatok
+ * @description
+ *  Rect: {x,y,w,h}, Circle: {x,y,r}, Polygon: csúcsok tömbje, Line: szakasz {x1,y1,x2,y2}
+ */
+export type Shape = Rect | Circle | Polygon | Line;
+
+/**
+ * Alakzatok fajtánként
+ */
+interface ShapeKinds {
+    rect: Rect;
+    circle: Circle;
+    polygon: Polygon;
+    line: Line;
+}
+
+/**
+ * Alakzat fajtája
+ */
+type ShapeKind = keyof ShapeKinds;
+
+/**
+ * Adott fajtájú, a fajtájával megjelölt alakzat
+ */
+interface KindedShape<K extends ShapeKind> {
+    kind: K;
+    shape: ShapeKinds[K];
+}
+
+/**
+ * Fajtájával megjelölt alakzat (a lehetséges fajta-alakzat párok uniója)
+ */
+type TaggedShape = { [K in ShapeKind]: KindedShape<K> }[ShapeKind];
+
+/**
+ * Egy fajtájú alakzat ütközésvizsgálói a másik alakzat fajtája szerint
+ */
+type ColliderRow<A extends ShapeKind> = { [B in ShapeKind]: (a: ShapeKinds[A], b: ShapeKinds[B]) => boolean };
+
+/**
+ * Ütközésvizsgálók alakzatpáronként
+ */
+type Colliders = { [A in ShapeKind]: ColliderRow<A> };
+
+/**
+ * Alakzat megjelölése a fajtájával
+ * @param {Shape} shape - alakzat
+ * @return {object} {kind,shape}
+ */
+const getTaggedShape = function(shape: Shape): TaggedShape {
+    if (Array.isArray(shape)) {
+        return { kind: 'polygon', shape };
+    }
+    if ('r' in shape) {
+        return { kind: 'circle', shape };
+    }
+    return 'x1' in shape ? { kind: 'line', shape } : { kind: 'rect', shape };
+};
+
+/**
+ * Sokszög élei
+ * @param {array} polygon - csúcsok
+ * @return {array} [{x1,y1,x2,y2}]
+ */
+const getPolygonEdges = function(polygon: Polygon): Line[] {
+    return polygon.map((a, i) => {
+        const b = polygon[(i + 1) % polygon.length];
+        return { x1: a.x, y1: a.y, x2: b.x, y2: b.y };
+    });
+};
+
+/**
+ * Ütközésvizsgálók alakzatpáronként (a fordított sorrendű párok a megfelelő vizsgálót hívják felcserélt paraméterekkel)
+ * @type {Object}
+ */
+const colliders: Colliders = {
+    rect: {
+        rect: (a, b) => isRectIntersection(a, b),
+        circle: (a, b) => isCircleRectIntersection(b, a),
+        polygon: (a, b) => colliders.polygon.polygon(
+            [{ x: a.x, y: a.y }, { x: a.x + a.w, y: a.y }, { x: a.x + a.w, y: a.y + a.h }, { x: a.x, y: a.y + a.h }],
+            b
+        ),
+        line: (a, b) => clipLineToRect(b, a) !== null
+    },
+    circle: {
+        rect: (a, b) => colliders.rect.circle(b, a),
+        circle: (a, b) => isCircleIntersection(a, b),
+        polygon: (a, b) => isPointInsidePolygon(a, b) || getPolygonEdges(b).some(edge => isCircleLineIntersection(a, edge)),
+        line: (a, b) => isCircleLineIntersection(a, b)
+    },
+    polygon: {
+        rect: (a, b) => colliders.rect.polygon(b, a),
+        circle: (a, b) => colliders.circle.polygon(b, a),
+        polygon: function(a, b) {
+            if (!a.length || !b.length) {
+                return false;
+            }
+            const edges = getPolygonEdges(b);
+            return getPolygonEdges(a).some(edge1 => edges.some(edge2 => getSegmentIntersection(edge1, edge2) !== null)) ||
+                isPointInsidePolygon(a[0], b) || isPointInsidePolygon(b[0], a);
+        },
+        // a szakasz kétcsúcsú sokszögként vizsgálható
+        line: (a, b) => colliders.polygon.polygon(a, [{ x: b.x1, y: b.y1 }, { x: b.x2, y: b.y2 }])
+    },
+    line: {
+        rect: (a, b) => colliders.rect.line(b, a),
+        circle: (a, b) => colliders.circle.line(b, a),
+        polygon: (a, b) => colliders.polygon.line(b, a),
+        line: (a, b) => getSegmentIntersection(a, b) !== null
+    }
+};
+
+/**
+ * Két megjelölt alakzat ütközésvizsgálata
+ * @param {object} a - {kind,shape}
+ * @param {object} b - {kind,shape}
+ * @return {boolean}
+ */
+const collide = function<A extends ShapeKind, B extends ShapeKind>(a: KindedShape<A>, b: KindedShape<B>): boolean {
+    // a sor típusa A-hoz kötött, így az indexelés után is párosával egyeznek a paraméterek típusai
+    const row: ColliderRow<A> = colliders[a.kind];
+    return row[b.kind](a.shape, b.shape);
+};
+
+/**
+ * Két tetszőleges alakzat metszete üres-e
+ * @param {Shape} shapeA - téglalap, kör, sokszög vagy szakasz
+ * @param {Shape} shapeB - téglalap, kör, sokszög vagy szakasz
+ * @return {boolean} true, ha van metszetük (az isRectIntersection()-höz hasonlóan az érintkezés is metszet)
+ * @description
+ *  A sokszögek belseje az evenodd szabály szerint értendő, a másik alakzatot teljesen tartalmazó alakzat is metszi azt.
+ * @example
+ *  const hit = targets.filter(target => intersects({ x: pointer.x, y: pointer.y, r: 12 }, target.shape));
+ */
+export const intersects = function(shapeA: Shape, shapeB: Shape): boolean {
+    return collide(getTaggedShape(shapeA), getTaggedShape(shapeB));
+};
+
+/**
+ * 3D koordináták összege
+ * @param {array} coords - koordináták
+ * @return {object} összeg
+ */
+export const addCoords3D = function(...coords: Coord3D[]): Coord3D {
+    return coords.reduce(
+        (acc, curr) => ({ x: acc.x + curr.x, y: acc.y + curr.y, z: acc.z + curr.z }),
+        { x: 0, y: 0, z: 0 }
+    );
+};
+
+/**
+ * 3D koordináták különbsége
+ * @param {object} a - {x,y,z}
+ * @param {object} b - {x,y,z}
+ * @return {object} a - b
+ */
+export const subtractCoords3D = function(a: Coord3D, b: Coord3D): Coord3D {
+    return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+};
+
+/**
+ * 3D vektor szorzása számmal
+ * @param {object} coord - {x,y,z}
+ * @param {number} factor - szorzó
+ * @return {object}
+ */
+export const scaleCoord3D = function(coord: Coord3D, factor: number): Coord3D {
+    return { x: coord.x * factor, y: coord.y * factor, z: coord.z * factor };
+};
+
+/**
+ * 3D vektorok skaláris szorzata
+ * @param {object} a - {x,y,z}
+ * @param {object} b - {x,y,z}
+ * @return {number}
+ */
+export const dot3D = function(a: Coord3D, b: Coord3D): number {
+    return a.x * b.x + a.y * b.y + a.z * b.z;
+};
+
+/**
+ * 3D vektorok vektoriális szorzata
+ * @param {object} a - {x,y,z}
+ * @param {object} b - {x,y,z}
+ * @return {object}
+ */
+export const cross3D = function(a: Coord3D, b: Coord3D): Coord3D {
+    return {
+        x: a.y * b.z - a.z * b.y,
+        y: a.z * b.x - a.x * b.z,
+        z: a.x * b.y - a.y * b.x
+    };
+};
+
+/**
+ * 3D vektor hossza
+ * @param {object} coord - {x,y,z}
+ * @return {number}
+ */
+export const length3D = function(coord: Coord3D): number {
+    return Math.sqrt(dot3D(coord, coord));
+};
+
+/**
+ * 3D egységvektor
+ * @param {object} coord - {x,y,z}
+ * @return {object} azonos irányú, 1 hosszú vektor (nullvektor esetén nullvektor)
+ */
+export const normalize3D = function(coord: Coord3D): Coord3D {
+    const length = length3D(coord);
+    return length ? scaleCoord3D(coord, 1 / length) : { x: 0, y: 0, z: 0 };
+};
+
+/**
+ * Két 3D pont távolsága
+ * @param {object} a - {x,y,z}
+ * @param {object} b - {x,y,z}
+ * @return {number}
+ */
+export const distance3D = function(a: Coord3D, b: Coord3D): number {
+    return length3D(subtractCoords3D(a, b));
+};
+
+/**
+ * Két téglatest metszete üres-e
+ * @param {object} rect1 - {x,y,z,w,h,d}
+ * @param {object} rect2 - {x,y,z,w,h,d}
+ * @return {boolean} true, ha van metszetük (az isRectIntersection()-höz hasonlóan az érintkezés is metszet)
+ */
+export const isRect3DIntersection = function(rect1: Rect3D, rect2: Rect3D): boolean {
+    return isRectIntersection(rect1, rect2) && rect1.z <= rect2.z + rect2.d && rect1.z + rect1.d >= rect2.z;
+};
+
+/**
+ * Két téglatest metszete
+ * @param {object} rect1 - {x,y,z,w,h,d}
+ * @param {object} rect2 - {x,y,z,w,h,d}
+ * @return {object} {x,y,z,w,h,d} (üres metszet esetén nulla téglatest, mint a getRectIntersection()-nél)
+ */
+export const getRect3DIntersection = function(rect1: Rect3D, rect2: Rect3D): Rect3D {
+    const z1 = Math.max(rect1.z, rect2.z);
+    const z2 = Math.min(rect1.z + rect1.d, rect2.z + rect2.d);
+    const rect = getRectIntersection(rect1, rect2);
+    if (z2 <= z1 || !rect.w || !rect.h) {
+        return { x: 0, y: 0, z: 0, w: 0, h: 0, d: 0 };
+    }
+    return { ...rect, z: z1, d: z2 - z1 };
+};
+
+/**
+ * Pont benne van-e egy téglatestben
+ * @param {object} point - {x,y,z}
+ * @param {object} rect - {x,y,z,w,h,d}
+ * @return {boolean} (az isPointInsideRectangle()-höz hasonlóan a lapokon lévő pont nincs benne)
+ */
+export const isPointInsideRect3D = function(point: Coord3D, rect: Rect3D): boolean {
+    return isPointInsideRectangle(point, rect) && rect.z < point.z && rect.z + rect.d > point.z;
+};
+
+/**
+ * Egyik téglatest teljesen tartalmazza-e a másikat
+ * @param {object} outer - {x,y,z,w,h,d}
+ * @param {object} inner - {x,y,z,w,h,d}
+ * @return {boolean} (a lapok egybeesése megengedett)
+ */
+export const isRect3DInside = function(outer: Rect3D, inner: Rect3D): boolean {
+    return outer.x <= inner.x && outer.x + outer.w >= inner.x + inner.w &&
+        outer.y <= inner.y && outer.y + outer.h >= inner.y + inner.h &&
+        outer.z <= inner.z && outer.z + outer.d >= inner.z + inner.d;
+};
@@ -0,0 +1,497 @@
+/**
+ * Matrix
+ *
+ * @description Affin transzformációs mátrixok
+ * @requires geometry
+ */
+
+import { Coord, Coord3D, Polygon, Rect, getPolygonBounds, normalize3D } from './geometry';
+
+/**
+ * 2D affin transzformáció (a CSS/SVG matrix(a, b, c, d, e, f) és a DOMMatrix jelölésével)
+ * @description
+ *  | a c e |
+ *  | b d f |
+ *  | 0 0 1 |
+ */
+export interface Matrix2D {
+    a: number;
+    b: number;
+    c: number;
+    d: number;
+    e: number;
+    f: number;
+}
+
+/**
+ * Transzformált téglalap
+ * @description
+ *  quad: a sarkok képe (bal felső, jobb felső, jobb alsó, bal alsó sorrendben)
+ *  bounds: a sarkokat befoglaló téglalap
+ */
+export interface TransformedRect {
+    quad: Polygon;
+    bounds: Rect;
+}
+
+/**
+ * 3D homogén transzformáció: 4×4 mátrix 16 eleme oszlopfolytonosan (mint a CSS matrix3d() és a DOMMatrix.toFloat64Array())
+ */
+export type Matrix3D = number[];
+
+/**
+ * Szög átváltása radiánra CSS mértékegység alapján
+ * @param {string} value - pl. '45deg', '0.5turn', '1.2rad', '50grad', '45' (mértékegység nélkül fok)
+ * @return {number}
+ */
+const parseAngle = function(value: string): number {
+    const match = value.match(/^(-?[\d.]+(?:e-?\d+)?)(deg|rad|turn|grad)?$/);
+    if (!match) {
+        throw new Error(`Invalid angle: ${value}`);
+    }
+    const factors = { deg: Math.PI / 180, rad: 1, turn: 2 * Math.PI, grad: Math.PI / 200 };
+    return Number(match[1]) * factors[(match[2] ?? 'deg') as keyof typeof factors];
+};
+
+/**
+ * Hossz feldolgozása (px vagy mértékegység nélkül)
+ * @param {string} value - pl. '10px', '-2.5'
+ * @return {number}
+ */
+const parseLength = function(value: string): number {
+    const match = value.match(/^(-?[\d.]+(?:e-?\d+)?)(px)?$/);
+    if (!match) {
+        throw new Error(`Invalid length: ${value}`);
+    }
+    return Number(match[1]);
+};
+
+/**
+ * 2D transzformációs mátrixok kezelése
+ * @description
+ *  A szögek radiánban értendők, a pozitív forgatás a képernyőn az óramutató járásával megegyező (mint a CSS rotate()).
+ *  A transzformációk a CSS-hez hasonlóan jobbról szorozzák a mátrixot, tehát a később hozzáadott hat először a pontokra.
+ * @example
+ *  const matrix = Matrix2D.rotate(Matrix2D.identity(), Math.PI / 4, { x: 50, y: 50 });
+ *  Matrix2D.applyToRect(matrix, { x: 0, y: 0, w: 100, h: 100 }).bounds;
+ */
+export const Matrix2D = {
+
+    /**
+     * Egységmátrix
+     * @return {Matrix2D}
+     */
+    identity: function(): Matrix2D {
+        return { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+    },
+
+    /**
+     * Két mátrix szorzata
+     * @param {Matrix2D} m1
+     * @param {Matrix2D} m2 - a pontokra először alkalmazott transzformáció
+     * @return {Matrix2D} m1 × m2
+     */
+    multiply: function(m1: Matrix2D, m2: Matrix2D): Matrix2D {
+        return {
+            a: m1.a * m2.a + m1.c * m2.b,
+            b: m1.b * m2.a + m1.d * m2.b,
+            c: m1.a * m2.c + m1.c * m2.d,
+            d: m1.b * m2.c + m1.d * m2.d,
+            e: m1.a * m2.e + m1.c * m2.f + m1.e,
+            f: m1.b * m2.e + m1.d * m2.f + m1.f
+        };
+    },
+
+    /**
+     * Eltolás
+     * @param {Matrix2D} matrix
+     * @param {number} x
+     * @param {number} [y=0]
+     * @return {Matrix2D}
+     */
+    translate: function(matrix: Matrix2D, x: number, y: number = 0): Matrix2D {
+        return Matrix2D.multiply(matrix, { a: 1, b: 0, c: 0, d: 1, e: x, f: y });
+    },
+
+    /**
+     * Forgatás
+     * @param {Matrix2D} matrix
+     * @param {number} angle - szög (radián)
+     * @param {Coord} [pivot={x:0,y:0}] - forgatás középpontja
+     * @return {Matrix2D}
+     */
+    rotate: function(matrix: Matrix2D, angle: number, pivot: Coord = { x: 0, y: 0 }): Matrix2D {
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const rotated = Matrix2D.multiply(
+            Matrix2D.translate(matrix, pivot.x, pivot.y),
+            { a: cos, b: sin, c: -sin, d: cos, e: 0, f: 0 }
+        );
+        return Matrix2D.translate(rotated, -pivot.x, -pivot.y);
+    },
+
+    /**
+     * Nagyítás
+     * @param {Matrix2D} matrix
+     * @param {number} x - vízszintes arány
+     * @param {number} [y=x] - függőleges arány
+     * @param {Coord} [origin={x:0,y:0}] - helyben maradó pont
+     * @return {Matrix2D}
+     */
+    scale: function(matrix: Matrix2D, x: number, y: number = x, origin: Coord = { x: 0, y: 0 }): Matrix2D {
+        const scaled = Matrix2D.multiply(
+            Matrix2D.translate(matrix, origin.x, origin.y),
+            { a: x, b: 0, c: 0, d: y, e: 0, f: 0 }
+        );
+        return Matrix2D.translate(scaled, -origin.x, -origin.y);
+    },
+
+    /**
+     * Nyírás
+     * @param {Matrix2D} matrix
+     * @param {number} x - vízszintes nyírás szöge (radián)
+     * @param {number} [y=0] - függőleges nyírás szöge (radián)
+     * @return {Matrix2D}
+     */
+    skew: function(matrix: Matrix2D, x: number, y: number = 0): Matrix2D {
+        return Matrix2D.multiply(matrix, { a: 1, b: Math.tan(y), c: Math.tan(x), d: 1, e: 0, f: 0 });
+    },
+
+    /**
+     * Inverz mátrix
+     * @param {Matrix2D} matrix
+     * @return {Matrix2D}
+     */
+    invert: function(matrix: Matrix2D): Matrix2D {
+        const det = matrix.a * matrix.d - matrix.b * matrix.c;
+        if (!det) {
+            throw new Error('Matrix is not invertible');
+        }
+        return {
+            a: matrix.d / det,
+            b: -matrix.b / det,
+            c: -matrix.c / det,
+            d: matrix.a / det,
+            e: (matrix.c * matrix.f - matrix.d * matrix.e) / det,
+            f: (matrix.b * matrix.e - matrix.a * matrix.f) / det
+        };
+    },
+
+    /**
+     * Transzformáció alkalmazása egy pontra
+     * @param {Matrix2D} matrix
+     * @param {Coord} coord - {x,y}
+     * @return {Coord}
+     */
+    applyToCoord: function(matrix: Matrix2D, coord: Coord): Coord {
+        return {
+            x: matrix.a * coord.x + matrix.c * coord.y + matrix.e,
+            y: matrix.b * coord.x + matrix.d * coord.y + matrix.f
+        };
+    },
+
+    /**
+     * Transzformáció alkalmazása egy téglalapra
+     * @param {Matrix2D} matrix
+     * @param {Rect} rect - {x,y,w,h}
+     * @return {TransformedRect} {quad, bounds}
+     */
+    applyToRect: function(matrix: Matrix2D, rect: Rect): TransformedRect {
+        const quad = [
+            { x: rect.x, y: rect.y },
+            { x: rect.x + rect.w, y: rect.y },
+            { x: rect.x + rect.w, y: rect.y + rect.h },
+            { x: rect.x, y: rect.y + rect.h }
+        ].map(coord => Matrix2D.applyToCoord(matrix, coord));
+        return { quad, bounds: getPolygonBounds(quad) };
+    },
+
+    /**
+     * CSS vagy SVG transform érték feldolgozása
+     * @param {string} transform - pl. 'translate(10px, 20px) rotate(45deg)', 'rotate(30 50 50)', 'matrix(1 0 0 1 5 5)', 'none'
+     * @return {Matrix2D}
+     * @description
+     *  Százalékos hosszak és 3D függvények nem támogatottak, kivéve a matrix3d()-t (a getComputedStyle() 3D transzformáció
+     *  esetén ezt adja, pl. translateZ(0) mellett), amelynek a képernyő síkjába eső 2D része számít.
+     *  Mértékegység nélküli szög fokban értendő (SVG).
+     */
+    parse: function(transform: string): Matrix2D {
+        let matrix = Matrix2D.identity();
+        const text = transform.trim();
+        if (text === '' || text === 'none') {
+            return matrix;
+        }
+        const functions: Record<string, (m: Matrix2D, args: string[]) => Matrix2D> = {
+            matrix: (m, args) => {
+                if (args.length !== 6) {
+                    throw new Error(`Invalid transform: ${transform}`);
+                }
+                const [a, b, c, d, e, f] = args.map(Number);
+                return Matrix2D.multiply(m, { a, b, c, d, e, f });
+            },
+            matrix3d: (m, args) => {
+                if (args.length !== 16) {
+                    throw new Error(`Invalid transform: ${transform}`);
+                }
+                // m11, m12, m21, m22, m41, m42 (oszlopfolytonos sorrendben)
+                const [a, b, c, d, e, f] = [0, 1, 4, 5, 12, 13].map(index => Number(args[index]));
+                return Matrix2D.multiply(m, { a, b, c, d, e, f });
+            },
+            translate: (m, args) => Matrix2D.translate(m, parseLength(args[0]), args[1] ? parseLength(args[1]) : 0),
+            translateX: (m, args) => Matrix2D.translate(m, parseLength(args[0]), 0),
+            translateY: (m, args) => Matrix2D.translate(m, 0, parseLength(args[0])),
+            scale: (m, args) => Matrix2D.scale(m, Number(args[0]), Number(args[1] ?? args[0])),
+            scaleX: (m, args) => Matrix2D.scale(m, Number(args[0]), 1),
+            scaleY: (m, args) => Matrix2D.scale(m, 1, Number(args[0])),
+            rotate: (m, args) => Matrix2D.rotate(
+                m,
+                parseAngle(args[0]),
+                args.length === 3 ? { x: parseLength(args[1]), y: parseLength(args[2]) } : undefined
+            ),
+            skew: (m, args) => Matrix2D.skew(m, parseAngle(args[0]), args[1] ? parseAngle(args[1]) : 0),
+            skewX: (m, args) => Matrix2D.skew(m, parseAngle(args[0]), 0),
+            skewY: (m, args) => Matrix2D.skew(m, 0, parseAngle(args[0]))
+        };
+        const functionPattern = /\s*([a-zA-Z0-9]+)\s*\(([^)]*)\)\s*,?/y;
+        let match: RegExpExecArray | null;
+        while (functionPattern.lastIndex < text.length && (match = functionPattern.exec(text)) !== null) {
+            const args = match[2].trim().split(/\s*,\s*|\s+/).filter(arg => arg !== '');
+            if (!functions[match[1]]) {
+                throw new Error(`Unsupported transform function: ${match[1]}`);
+            }
+            matrix = functions[match[1]](matrix, args);
+            if (!args.length || Object.values(matrix).some(Number.isNaN)) {
+                throw new Error(`Invalid transform: ${transform}`);
+            }
+        }
+        if (functionPattern.lastIndex !== text.length) {
+            throw new Error(`Invalid transform: ${transform}`);
+        }
+        return matrix;
+    },
+
+    /**
+     * Mátrix CSS és SVG transform alakban
+     * @param {Matrix2D} matrix
+     * @return {string} 'matrix(a, b, c, d, e, f)'
+     */
+    toString: function(matrix: Matrix2D): string {
+        const values = [matrix.a, matrix.b, matrix.c, matrix.d, matrix.e, matrix.f]
+            .map(value => String(Number(value.toFixed(10)) || 0));
+        return `matrix(${values.join(', ')})`;
+    },
+
+    /**
+     * Mátrix átvétele DOMMatrix-ból (pl. SVGGraphicsElement.getCTM())
+     * @param {DOMMatrixReadOnly} domMatrix
+     * @return {Matrix2D}
+     */
+    fromDOMMatrix: function(domMatrix: DOMMatrix2DInit): Matrix2D {
+        return {
+            a: domMatrix.a ?? 1,
+            b: domMatrix.b ?? 0,
+            c: domMatrix.c ?? 0,
+            d: domMatrix.d ?? 1,
+            e: domMatrix.e ?? 0,
+            f: domMatrix.f ?? 0
+        };
+    },
+
+    /**
+     * Mátrix DOMMatrix alakban
+     * @param {Matrix2D} matrix
+     * @return {DOMMatrix}
+     */
+    toDOMMatrix: function(matrix: Matrix2D): DOMMatrix {
+        return new DOMMatrix([matrix.a, matrix.b, matrix.c, matrix.d, matrix.e, matrix.f]);
+    },
+
+    /**
+     * Egy elem transzformációja a saját border-box-ának koordinátarendszerében
+     * @param {Element} element - DOM elem
+     * @return {Matrix2D} a transform-origin-t is figyelembe véve (az origó az elem bal felső sarka)
+     * @description
+     *  Az eredményt applyToRect()-tel az elem transzformáció nélküli téglalapjára alkalmazva megkapható az elforgatott elem négyszöge.
+     */
+    fromElement: function(element: Element): Matrix2D {
+        const style = window.getComputedStyle(element);
+        const [x = 0, y = 0] = style.transformOrigin.split(' ').map(parseFloat);
+        const matrix = Matrix2D.parse(style.transform);
+        return Matrix2D.translate(Matrix2D.multiply(Matrix2D.translate(Matrix2D.identity(), x, y), matrix), -x, -y);
+    }
+
+};
+
+/**
+ * 3D transzformációs mátrixok kezelése (pl. CSS 3D nézetekhez)
+ * @description
+ *  A tengelyek a CSS-t követik: x jobbra, y lefelé, z a néző felé mutat. A szögek radiánban értendők.
+ *  A Matrix2D-hez hasonlóan a transzformációk jobbról szorozzák a mátrixot.
+ * @example
+ *  let matrix = Matrix3D.perspective(Matrix3D.identity(), 800);
+ *  matrix = Matrix3D.rotateY(matrix, Math.PI / 6);
+ *  const screen = Matrix3D.project(matrix, { x: 100, y: 50, z: 0 }, { x: 400, y: 300 });
+ */
+export const Matrix3D = {
+
+    /**
+     * Egységmátrix
+     * @return {Matrix3D}
+     */
+    identity: function(): Matrix3D {
+        return [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+    },
+
+    /**
+     * 2D mátrix átalakítása 3D mátrixszá
+     * @param {Matrix2D} matrix
+     * @return {Matrix3D}
+     */
+    fromMatrix2D: function(matrix: Matrix2D): Matrix3D {
+        return [matrix.a, matrix.b, 0, 0, matrix.c, matrix.d, 0, 0, 0, 0, 1, 0, matrix.e, matrix.f, 0, 1];
+    },
+
+    /**
+     * Két mátrix szorzata
+     * @param {Matrix3D} m1
+     * @param {Matrix3D} m2 - a pontokra először alkalmazott transzformáció
+     * @return {Matrix3D} m1 × m2
+     */
+    multiply: function(m1: Matrix3D, m2: Matrix3D): Matrix3D {
+        const result: Matrix3D = [];
+        for (let col = 0; col < 4; col++) {
+            for (let row = 0; row < 4; row++) {
+                result[col * 4 + row] = m1[row] * m2[col * 4] + m1[4 + row] * m2[col * 4 + 1] +
+                    m1[8 + row] * m2[col * 4 + 2] + m1[12 + row] * m2[col * 4 + 3];
+            }
+        }
+        return result;
+    },
+
+    /**
+     * Eltolás
+     * @param {Matrix3D} matrix
+     * @param {number} x
+     * @param {number} [y=0]
+     * @param {number} [z=0]
+     * @return {Matrix3D}
+     */
+    translate: function(matrix: Matrix3D, x: number, y: number = 0, z: number = 0): Matrix3D {
+        return Matrix3D.multiply(matrix, [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, x, y, z, 1]);
+    },
+
+    /**
+     * Nagyítás
+     * @param {Matrix3D} matrix
+     * @param {number} x
+     * @param {number} [y=x]
+     * @param {number} [z=x]
+     * @return {Matrix3D}
+     */
+    scale: function(matrix: Matrix3D, x: number, y: number = x, z: number = x): Matrix3D {
+        return Matrix3D.multiply(matrix, [x, 0, 0, 0, 0, y, 0, 0, 0, 0, z, 0, 0, 0, 0, 1]);
+    },
+
+    /**
+     * Forgatás egy tengely körül (mint a CSS rotate3d())
+     * @param {Matrix3D} matrix
+     * @param {Coord3D} axis - a forgatás tengelyének iránya
+     * @param {number} angle - szög (radián)
+     * @return {Matrix3D}
+     */
+    rotate: function(matrix: Matrix3D, axis: Coord3D, angle: number): Matrix3D {
+        const { x, y, z } = normalize3D(axis);
+        const sin = Math.sin(angle);
+        const t = 1 - Math.cos(angle);
+        return Matrix3D.multiply(matrix, [
+            1 + t * (x * x - 1), z * sin + t * x * y, -y * sin + t * x * z, 0,
+            -z * sin + t * x * y, 1 + t * (y * y - 1), x * sin + t * y * z, 0,
+            y * sin + t * x * z, -x * sin + t * y * z, 1 + t * (z * z - 1), 0,
+            0, 0, 0, 1
+        ]);
+    },
+
+    /**
+     * Forgatás az x tengely körül
+     * @param {Matrix3D} matrix
+     * @param {number} angle - szög (radián)
+     * @return {Matrix3D}
+     */
+    rotateX: function(matrix: Matrix3D, angle: number): Matrix3D {
+        return Matrix3D.rotate(matrix, { x: 1, y: 0, z: 0 }, angle);
+    },
+
+    /**
+     * Forgatás az y tengely körül
+     * @param {Matrix3D} matrix
+     * @param {number} angle - szög (radián)
+     * @return {Matrix3D}
+     */
+    rotateY: function(matrix: Matrix3D, angle: number): Matrix3D {
+        return Matrix3D.rotate(matrix, { x: 0, y: 1, z: 0 }, angle);
+    },
+
+    /**
+     * Forgatás a z tengely körül (a képernyő síkjában, mint a Matrix2D.rotate())
+     * @param {Matrix3D} matrix
+     * @param {number} angle - szög (radián)
+     * @return {Matrix3D}
+     */
+    rotateZ: function(matrix: Matrix3D, angle: number): Matrix3D {
+        return Matrix3D.rotate(matrix, { x: 0, y: 0, z: 1 }, angle);
+    },
+
+    /**
+     * Perspektíva (mint a CSS perspective())
+     * @param {Matrix3D} matrix
+     * @param {number} distance - a néző távolsága a z = 0 síktól
+     * @return {Matrix3D}
+     */
+    perspective: function(matrix: Matrix3D, distance: number): Matrix3D {
+        if (distance <= 0) {
+            throw new Error('Perspective distance must be positive');
+        }
+        const perspective = Matrix3D.identity();
+        perspective[11] = -1 / distance;
+        return Matrix3D.multiply(matrix, perspective);
+    },
+
+    /**
+     * Transzformáció alkalmazása egy pontra
+     * @param {Matrix3D} matrix
+     * @param {Coord3D} coord - {x,y,z}
+     * @return {Coord3D} a homogén koordinátával osztva
+     */
+    applyToCoord: function(matrix: Matrix3D, coord: Coord3D): Coord3D {
+        const w = matrix[3] * coord.x + matrix[7] * coord.y + matrix[11] * coord.z + matrix[15];
+        return {
+            x: (matrix[0] * coord.x + matrix[4] * coord.y + matrix[8] * coord.z + matrix[12]) / w,
+            y: (matrix[1] * coord.x + matrix[5] * coord.y + matrix[9] * coord.z + matrix[13]) / w,
+            z: (matrix[2] * coord.x + matrix[6] * coord.y + matrix[10] * coord.z + matrix[14]) / w
+        };
+    },
+
+    /**
+     * 3D pont vetítése a képernyőre
+     * @param {Matrix3D} matrix - transzformáció (általában perspektívával)
+     * @param {Coord3D} coord - {x,y,z}
+     * @param {Coord} [origin={x:0,y:0}] - a transzformáció középpontja a képernyőn (mint a CSS perspective-origin)
+     * @return {Coord} képernyőkoordináta
+     */
+    project: function(matrix: Matrix3D, coord: Coord3D, origin: Coord = { x: 0, y: 0 }): Coord {
+        const toOrigin = Matrix3D.translate(Matrix3D.identity(), origin.x, origin.y);
+        const centered = Matrix3D.translate(Matrix3D.multiply(toOrigin, matrix), -origin.x, -origin.y);
+        const { x, y } = Matrix3D.applyToCoord(centered, coord);
+        return { x, y };
+    },
+
+    /**
+     * Mátrix CSS transform alakban
+     * @param {Matrix3D} matrix
+     * @return {string} 'matrix3d(...)'
+     */
+    toString: function(matrix: Matrix3D): string {
+        return `matrix3d(${matrix.map(value => String(Number(value.toFixed(10)) || 0)).join(', ')})`;
+    }
+
+};
@@ -0,0 +1,245 @@
+/**
+ * Packing
+ *
+ * @description Téglalapok elhelyezése átfedés nélkül (bin-packing és rácsos elrendezés)
+ * @requires geometry
+ */
+
+import { Rect, getRectIntersection } from './geometry';
+
+/**
+ * Elhelyezési algoritmusok
+ * @description
+ *  maxrects: a szabad téglalapok közül a legszorosabban illeszkedőt választja (legjobb kihasználtság)
+ *  skyline: a lehető legalacsonyabbra, azon belül legbalrább teszi az elemet
+ *  shelf: sorokba ("polcokra") rendezi az elemeket (leggyorsabb, kiszámítható sorrend)
+ */
+export type PackingAlgorithm = 'maxrects' | 'skyline' | 'shelf';
+
+/**
+ * A pack() beállításai
+ * @description
+ *  algorithm: elhelyezési algoritmus (alapértelmezett: 'maxrects')
+ *  sort: az elemek elhelyezése méret szerint csökkenő sorrendben (alapértelmezett: true)
+ */
+export interface PackingOptions {
+    algorithm?: PackingAlgorithm;
+    sort?: boolean;
+}
+
+/**
+ * A pack() eredménye
+ * @description
+ *  packed: az elhelyezett elemek másolata a kiszámított x, y koordinátákkal (a bemenet sorrendjében)
+ *  unpacked: a tárolóba nem férő elemek
+ */
+export interface PackingResult<T extends Rect> {
+    packed: T[];
+    unpacked: T[];
+}
+
+/**
+ * A skyline algoritmus egy vízszintes szakasza
+ */
+interface SkylineSegment {
+    x: number;
+    y: number;
+    w: number;
+}
+
+/**
+ * Két téglalap átfedi-e egymást (az élek érintkezése megengedett)
+ * @param {object} rect1 - {x,y,w,h}
+ * @param {object} rect2 - {x,y,w,h}
+ * @return {boolean}
+ */
+const overlaps = function(rect1: Rect, rect2: Rect): boolean {
+    const intersect = getRectIntersection(rect1, rect2);
+    return intersect.w > 0 && intersect.h > 0;
+};
+
+/**
+ * Egyik téglalap teljesen tartalmazza-e a másikat
+ * @param {object} outer - {x,y,w,h}
+ * @param {object} inner - {x,y,w,h}
+ * @return {boolean}
+ */
+const contains = function(outer: Rect, inner: Rect): boolean {
+    return outer.x <= inner.x && outer.y <= inner.y &&
+        outer.x + outer.w >= inner.x + inner.w && outer.y + outer.h >= inner.y + inner.h;
+};
+
+/**
+ * Elhelyező függvények: a méret alapján a bal felső sarok vagy null, ha nem fér el
+ * @type {Object}
+ */
+const packers: Record<PackingAlgorithm, (container: Rect) => (w: number, h: number) => Rect | null> = {
+
+    maxrects: function(container) {
+        let free: Rect[] = [{ ...container }];
+        return function(w, h) {
+            let best: Rect | null = null;
+            let bestScore = [Infinity, Infinity];
+            free.forEach((space) => {
+                if (space.w >= w && space.h >= h) {
+                    // best short side fit
+                    const score = [Math.min(space.w - w, space.h - h), Math.max(space.w - w, space.h - h)];
+                    if (score[0] < bestScore[0] || (score[0] === bestScore[0] && score[1] < bestScore[1])) {
+                        best = { x: space.x, y: space.y, w, h };
+                        bestScore = score;
+                    }
+                }
+            });
+            if (!best) {
+                return null;
+            }
+            const used: Rect = best;
+            free = free.flatMap((space) => {
+                if (!overlaps(space, used)) {
+                    return [space];
+                }
+                return [
+                    { ...space, w: used.x - space.x },
+                    { ...space, x: used.x + used.w, w: space.x + space.w - used.x - used.w },
+                    { ...space, h: used.y - space.y },
+                    { ...space, y: used.y + used.h, h: space.y + space.h - used.y - used.h }
+                ].filter(part => part.w > 0 && part.h > 0);
+            });
+            free = free.filter((space, i) => !free.some((other, j) => j !== i && contains(other, space) &&
+                (!contains(space, other) || j < i)));
+            return used;
+        };
+    },
+
+    skyline: function(container) {
+        let skyline: SkylineSegment[] = [{ x: container.x, y: container.y, w: container.w }];
+        return function(w, h) {
+            let best: Rect | null = null;
+            skyline.forEach((segment, i) => {
+                if (segment.x + w > container.x + container.w) {
+                    return;
+                }
+                let y = segment.y;
+                for (let j = i, covered = 0; covered < w; covered += skyline[j].w, j++) {
+                    y = Math.max(y, skyline[j].y);
+                }
+                if (y + h <= container.y + container.h && (!best || y < best.y || (y === best.y && segment.x < best.x))) {
+                    best = { x: segment.x, y, w, h };
+                }
+            });
+            if (!best) {
+                return null;
+            }
+            const used: Rect = best;
+            const right = used.x + used.w;
+            skyline = [
+                ...skyline.flatMap((segment) => {
+                    const parts: SkylineSegment[] = [];
+                    if (segment.x < used.x) {
+                        parts.push({ ...segment, w: Math.min(segment.w, used.x - segment.x) });
+                    }
+                    if (segment.x + segment.w > right) {
+                        const x = Math.max(segment.x, right);
+                        parts.push({ x, y: segment.y, w: segment.x + segment.w - x });
+                    }
+                    return parts;
+                }),
+                { x: used.x, y: used.y + used.h, w: used.w }
+            ]
+                .sort((a, b) => a.x - b.x)
+                .reduce((merged: SkylineSegment[], segment) => {
+                    const last = merged[merged.length - 1];
+                    if (last && last.y === segment.y) {
+                        last.w += segment.w;
+                    }
+                    else {
+                        merged.push(segment);
+                    }
+                    return merged;
+                }, []);
+            return used;
+        };
+    },
+
+    shelf: function(container) {
+        const shelves: { y: number, h: number, x: number }[] = [];
+        return function(w, h) {
+            if (w > container.w) {
+                return null;
+            }
+            let shelf = shelves.find(candidate => candidate.h >= h && candidate.x + w <= container.x + container.w);
+            if (!shelf) {
+                const last = shelves[shelves.length - 1];
+                const y = last ? last.y + last.h : container.y;
+                if (y + h > container.y + container.h) {
+                    return null;
+                }
+                shelf = { y, h, x: container.x };
+                shelves.push(shelf);
+            }
+            const rect = { x: shelf.x, y: shelf.y, w, h };
+            shelf.x += w;
+            return rect;
+        };
+    }
+
+};
+
+/**
+ * Téglalapok elhelyezése egy tárolóban átfedés nélkül
+ * @param {array<Rect>} items - elemek (csak a w és h számít)
+ * @param {Rect} container - tároló
+ * @param {PackingOptions} [options] - beállítások
+ * @return {PackingResult} {packed, unpacked}
+ * @example
+ *  const { packed, unpacked } = pack(widgets, { x: 0, y: 0, w: 1200, h: 800 }, { algorithm: 'skyline' });
+ */
+export const pack = function<T extends Rect>(items: T[], container: Rect, options: PackingOptions = {}): PackingResult<T> {
+    const place = packers[options.algorithm ?? 'maxrects'](container);
+    const order = items.map((_item, i) => i);
+    if (options.sort ?? true) {
+        order.sort((a, b) => Math.max(items[b].w, items[b].h) - Math.max(items[a].w, items[a].h) ||
+            items[b].w * items[b].h - items[a].w * items[a].h);
+    }
+    const positions = new Map<number, Rect>();
+    order.forEach((i) => {
+        const rect = items[i].w >= 0 && items[i].h >= 0 ? place(items[i].w, items[i].h) : null;
+        if (rect) {
+            positions.set(i, rect);
+        }
+    });
+    return {
+        packed: items.flatMap((item, i) => positions.has(i) ? [{ ...item, ...positions.get(i) }] : []),
+        unpacked: items.filter((_item, i) => !positions.has(i))
+    };
+};
+
+/**
+ * Elemek felfelé tömörítése rácsos elrendezésben (mint a gridster)
+ * @param {array<Rect>} items - elemek
+ * @param {array<Rect>} [pinned=[]] - a helyükön maradó elemek (pl. az éppen húzott elem)
+ * @param {number} [top=0] - a tároló teteje
+ * @return {array<Rect>} az elemek másolata az új y koordinátákkal (a bemenet sorrendjében, átfedés nélkül)
+ * @description
+ *  Az elemek fentről lefelé haladva a lehető legmagasabbra kerülnek, az ütköző elemek lejjebb csúsznak.
+ *  A rögzített elemek egymással sem fedhetik át egymást.
+ * @example
+ *  // húzás közben
+ *  layout = compact(layout.map(item => item.id === dragged.id ? dragged : item), [dragged]);
+ */
+export const compact = function<T extends Rect>(items: T[], pinned: T[] = [], top: number = 0): T[] {
+    const placed: Rect[] = pinned.map(item => ({ ...item }));
+    const result = new Map<T, T>(pinned.map((item, i) => [item, { ...item, ...placed[i] }]));
+    [...items]
+        .filter(item => !result.has(item))
+        .sort((a, b) => a.y - b.y || a.x - b.x)
+        .forEach((item) => {
+            const candidates = [top, ...placed.map(rect => rect.y + rect.h)]
+                .filter(y => y >= top)
+                .sort((a, b) => a - b);
+            const y = candidates.find(candidate => !placed.some(rect => overlaps(rect, { ...item, y: candidate }))) as number;
+            placed.push({ ...item, y });
+            result.set(item, { ...item, y });
+        });
+    return items.map(item => result.get(item) as T);
+};
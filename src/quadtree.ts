@@ -0,0 +1,233 @@
+/**
+ * Quadtree
+ *
+ * @description Téglalapok térbeli indexe gyors ütközésvizsgálathoz és kijelöléshez
+ * @requires geometry
+ */
+
+import { Coord, Rect, isPointInsideRectangle, isRectIntersection, rectToEdges } from './geometry';
+
+/**
+ * A Quadtree beállításai
+ * @description
+ *  maxItems: egy csomópontban tárolt elemek száma, ami fölött a csomópont négy részre oszlik (alapértelmezett: 8)
+ *  maxDepth: a fa legnagyobb mélysége (alapértelmezett: 8)
+ */
+export interface QuadtreeOptions {
+    maxItems?: number;
+    maxDepth?: number;
+}
+
+/**
+ * A fa egy csomópontja
+ * @description
+ *  items: azok az elemek, amelyeket egyik gyerek sem tartalmaz teljesen
+ */
+interface QuadtreeNode<T> {
+    bounds: Rect;
+    depth: number;
+    items: Set<T>;
+    children: QuadtreeNode<T>[] | null;
+}
+
+/**
+ * Egyik téglalap teljesen tartalmazza-e a másikat (az élek is beleértendők)
+ * @param {object} outer - {x,y,w,h}
+ * @param {object} inner - {x,y,w,h}
+ * @return {boolean}
+ */
+const containsRect = function(outer: Rect, inner: Rect): boolean {
+    const o = rectToEdges(outer);
+    const i = rectToEdges(inner);
+    return o.x1 <= i.x1 && o.y1 <= i.y1 && o.x2 >= i.x2 && o.y2 >= i.y2;
+};
+
+/**
+ * Pont távolsága egy téglalaptól
+ * @param {object} point - {x,y}
+ * @param {object} rect - {x,y,w,h}
+ * @return {number} 0, ha a pont a téglalapon belül vagy az élén van
+ */
+const rectDistance = function(point: Coord, rect: Rect): number {
+    const dx = Math.max(rect.x - point.x, 0, point.x - rect.x - rect.w);
+    const dy = Math.max(rect.y - point.y, 0, point.y - rect.y - rect.h);
+    return Math.sqrt(dx * dx + dy * dy);
+};
+
+/**
+ * Téglalapokkal rendelkező elemek térbeli indexe
+ * @param {Rect} bounds - az indexelt terület (a kilógó elemek is tárolhatók, de azokat mindig végig kell nézni)
+ * @param {QuadtreeOptions} [options] - beállítások
+ * @return {object}
+ * @description
+ *  A lekérdezések eredménye megegyezik az isRectIntersection() és az isPointInsideRectangle() páronkénti vizsgálatával.
+ * @example
+ *  const tree = Quadtree({ x: 0, y: 0, w: 1920, h: 1080 });
+ *  items.forEach(item => tree.insert(item, item.rect));
+ *  const hovered = tree.queryPoint(getMousePosition(event));
+ */
+export const Quadtree = function<T>(bounds: Rect, options: QuadtreeOptions = {}) {
+    const maxItems = options.maxItems ?? 8;
+    const maxDepth = options.maxDepth ?? 8;
+    const entries = new Map<T, { rect: Rect, node: QuadtreeNode<T> }>();
+    let root: QuadtreeNode<T> = { bounds, depth: 0, items: new Set(), children: null };
+
+    const split = function(node: QuadtreeNode<T>): void {
+        const { x, y } = node.bounds;
+        const w = node.bounds.w / 2;
+        const h = node.bounds.h / 2;
+        node.children = [
+            { x, y }, { x: x + w, y }, { x, y: y + h }, { x: x + w, y: y + h }
+        ].map(corner => ({ bounds: { ...corner, w, h }, depth: node.depth + 1, items: new Set<T>(), children: null }));
+        const items = [...node.items];
+        node.items.clear();
+        items.forEach(item => place(node, item));
+    };
+
+    const place = function(node: QuadtreeNode<T>, item: T): void {
+        const entry = entries.get(item) as { rect: Rect, node: QuadtreeNode<T> };
+        const child = node.children?.find(candidate => containsRect(candidate.bounds, entry.rect));
+        if (child) {
+            place(child, item);
+            return;
+        }
+        node.items.add(item);
+        entry.node = node;
+        if (!node.children && node.items.size > maxItems && node.depth < maxDepth) {
+            split(node);
+        }
+    };
+
+    const collect = function(node: QuadtreeNode<T>, rect: Rect, result: T[]): T[] {
+        node.items.forEach((item) => {
+            if (isRectIntersection((entries.get(item) as { rect: Rect }).rect, rect)) {
+                result.push(item);
+            }
+        });
+        node.children?.forEach((child) => {
+            if (isRectIntersection(child.bounds, rect)) {
+                collect(child, rect, result);
+            }
+        });
+        return result;
+    };
+
+    const tree = {
+
+        /**
+         * Elem hozzáadása (már tárolt elem esetén a téglalap frissítése)
+         * @param {T} item - elem
+         * @param {Rect} rect - az elem téglalapja
+         */
+        insert: function(item: T, rect: Rect): void {
+            if (entries.has(item)) {
+                tree.remove(item);
+            }
+            entries.set(item, { rect: { ...rect }, node: root });
+            place(root, item);
+        },
+
+        /**
+         * Elem eltávolítása
+         * @param {T} item - elem
+         * @return {boolean} false, ha az elem nem szerepelt a fában
+         */
+        remove: function(item: T): boolean {
+            const entry = entries.get(item);
+            if (!entry) {
+                return false;
+            }
+            entry.node.items.delete(item);
+            entries.delete(item);
+            return true;
+        },
+
+        /**
+         * Elem téglalapjának módosítása (pl. mozgatás után)
+         * @param {T} item - elem
+         * @param {Rect} rect - az elem új téglalapja
+         */
+        update: function(item: T, rect: Rect): void {
+            const entry = entries.get(item);
+            if (entry && containsRect(entry.node.bounds, rect) && !entry.node.children) {
+                entry.rect = { ...rect };
+                return;
+            }
+            tree.insert(item, rect);
+        },
+
+        /**
+         * Téglalappal érintkező elemek (az isRectIntersection() szerint, tehát az élek érintése is számít)
+         * @param {Rect} rect - {x,y,w,h}
+         * @return {array<T>}
+         */
+        queryRect: function(rect: Rect): T[] {
+            return collect(root, rect, []);
+        },
+
+        /**
+         * Ponton lévő elemek
+         * @param {Coord} point - {x,y}
+         * @param {boolean} [exclusive=false] - ha true, az éleken lévő pont nem számít (mint az isPointInsideRectangle()-nél)
+         * @return {array<T>}
+         */
+        queryPoint: function(point: Coord, exclusive: boolean = false): T[] {
+            const items = collect(root, { ...point, w: 0, h: 0 }, []);
+            if (!exclusive) {
+                return items;
+            }
+            return items.filter(item => isPointInsideRectangle(point, (entries.get(item) as { rect: Rect }).rect));
+        },
+
+        /**
+         * Egy ponthoz legközelebbi elemek
+         * @param {Coord} point - {x,y}
+         * @param {number} [k=1] - elemek száma
+         * @return {array<T>} távolság szerint növekvő sorrendben (a pontot tartalmazó elemek távolsága 0)
+         */
+        nearest: function(point: Coord, k: number = 1): T[] {
+            const best: { item: T, distance: number }[] = [];
+            const visit = function(node: QuadtreeNode<T>): void {
+                node.items.forEach((item) => {
+                    const d = rectDistance(point, (entries.get(item) as { rect: Rect }).rect);
+                    if (best.length < k || d < best[best.length - 1].distance) {
+                        const index = best.findIndex(candidate => candidate.distance > d);
+                        best.splice(index < 0 ? best.length : index, 0, { item, distance: d });
+                        best.length = Math.min(best.length, k);
+                    }
+                });
+                (node.children ?? [])
+                    .map(child => ({ child, distance: rectDistance(point, child.bounds) }))
+                    .sort((a, b) => a.distance - b.distance)
+                    .forEach(({ child, distance }) => {
+                        if (best.length < k || distance < best[best.length - 1].distance) {
+                            visit(child);
+                        }
+                    });
+            };
+            if (k > 0) {
+                visit(root);
+            }
+            return best.map(candidate => candidate.item);
+        },
+
+        /**
+         * Minden elem törlése
+         */
+        clear: function(): void {
+            entries.clear();
+            root = { bounds, depth: 0, items: new Set(), children: null };
+        },
+
+        /**
+         * Tárolt elemek száma
+         * @return {number}
+         */
+        size: function(): number {
+            return entries.size;
+        }
+
+    };
+
+    return tree;
+};
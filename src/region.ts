@@ -0,0 +1,234 @@
+/**
+ * Region
+ *
+ * @description Téglalapokból álló területek halmazműveletei (újrarajzolandó területek, szabad helyek keresése)
+ * @requires geometry
+ */
+
+import { Coord, Rect, getRectIntersection } from './geometry';
+
+/**
+ * Normalizált terület: egymást át nem fedő, pozitív méretű téglalapok
+ * @description
+ *  A téglalapok vízszintes sávokba rendezettek (fentről lefelé, azon belül balról jobbra), az egymás alatti azonos
+ *  felosztású sávok összevonva, így két azonos terület normalizált alakja is azonos.
+ */
+export type Region = Rect[];
+
+/**
+ * Egy vízszintes sáv lefedett szakaszai
+ */
+interface Band {
+    y1: number;
+    y2: number;
+    spans: [number, number][];
+}
+
+/**
+ * Pozitív méretű-e a téglalap
+ * @param {object} rect - {x,y,w,h}
+ * @return {boolean}
+ */
+const isValid = function(rect: Rect): boolean {
+    return rect.w > 0 && rect.h > 0;
+};
+
+/**
+ * Rendezett, ismétlődés nélküli koordináták
+ * @param {array<number>} values
+ * @return {array<number>}
+ */
+const getEdges = function(values: number[]): number[] {
+    return [...new Set(values)].sort((a, b) => a - b);
+};
+
+/**
+ * Két téglalaphalmaz kombinálása sávokra bontással
+ * @param {array<Rect>} a - tetszőleges (akár átfedő) téglalapok
+ * @param {array<Rect>} b - tetszőleges (akár átfedő) téglalapok
+ * @param {function} operation - egy pont az eredményben van-e aszerint, hogy a-ban, illetve b-ben benne van
+ * @return {Region}
+ */
+const combine = function(a: Rect[], b: Rect[], operation: (inA: boolean, inB: boolean) => boolean): Region {
+    const sources = [a.filter(isValid), b.filter(isValid)];
+    const ys = getEdges(sources.flat().flatMap(rect => [rect.y, rect.y + rect.h]));
+    const bands: Band[] = [];
+    for (let i = 0; i < ys.length - 1; i++) {
+        const [y1, y2] = [ys[i], ys[i + 1]];
+        const [bandA, bandB] = sources.map(rects => rects.filter(rect => rect.y <= y1 && rect.y + rect.h >= y2));
+        const xs = getEdges([...bandA, ...bandB].flatMap(rect => [rect.x, rect.x + rect.w]));
+        const spans: [number, number][] = [];
+        for (let j = 0; j < xs.length - 1; j++) {
+            const [x1, x2] = [xs[j], xs[j + 1]];
+            const covered = (rects: Rect[]) => rects.some(rect => rect.x <= x1 && rect.x + rect.w >= x2);
+            if (!operation(covered(bandA), covered(bandB))) {
+                continue;
+            }
+            const last = spans[spans.length - 1];
+            if (last && last[1] === x1) {
+                last[1] = x2;
+            }
+            else {
+                spans.push([x1, x2]);
+            }
+        }
+        const previous = bands[bands.length - 1];
+        if (previous && previous.y2 === y1 && previous.spans.length === spans.length &&
+            previous.spans.every((span, k) => span[0] === spans[k][0] && span[1] === spans[k][1])) {
+            previous.y2 = y2;
+        }
+        else if (spans.length) {
+            bands.push({ y1, y2, spans });
+        }
+    }
+    return bands.flatMap(band => band.spans.map(([x1, x2]) => ({ x: x1, y: band.y1, w: x2 - x1, h: band.y2 - band.y1 })));
+};
+
+export const Region = {
+
+    /**
+     * Téglalapok uniója normalizált területként
+     * @param {array<Rect>} rects - tetszőleges (akár átfedő) téglalapok, a nulla méretűek kimaradnak
+     * @return {Region}
+     * @example
+     *  const dirty = Region.from(changedWidgets.map(widget => widget.rect));
+     */
+    from: function(rects: Rect[]): Region {
+        return combine(rects, [], inA => inA);
+    },
+
+    /**
+     * Két terület uniója
+     * @param {array<Rect>} a
+     * @param {array<Rect>} b
+     * @return {Region}
+     */
+    union: function(a: Rect[], b: Rect[]): Region {
+        return combine(a, b, (inA, inB) => inA || inB);
+    },
+
+    /**
+     * Két terület különbsége
+     * @param {array<Rect>} a
+     * @param {array<Rect>} b - a kivonandó terület
+     * @return {Region}
+     */
+    subtract: function(a: Rect[], b: Rect[]): Region {
+        return combine(a, b, (inA, inB) => inA && !inB);
+    },
+
+    /**
+     * Két terület metszete
+     * @param {array<Rect>} a
+     * @param {array<Rect>} b
+     * @return {Region}
+     */
+    intersect: function(a: Rect[], b: Rect[]): Region {
+        return combine(a, b, (inA, inB) => inA && inB);
+    },
+
+    /**
+     * Terület nagysága
+     * @param {array<Rect>} region - az átfedések csak egyszer számítanak
+     * @return {number}
+     */
+    getArea: function(region: Rect[]): number {
+        return Region.from(region).reduce((acc, rect) => acc + rect.w * rect.h, 0);
+    },
+
+    /**
+     * Területet befoglaló téglalap
+     * @param {array<Rect>} region
+     * @return {object} {x,y,w,h} (üres terület esetén nulla téglalap)
+     */
+    getBounds: function(region: Rect[]): Rect {
+        const rects = region.filter(isValid);
+        if (!rects.length) {
+            return { x: 0, y: 0, w: 0, h: 0 };
+        }
+        const x = Math.min(...rects.map(rect => rect.x));
+        const y = Math.min(...rects.map(rect => rect.y));
+        return {
+            x, y,
+            w: Math.max(...rects.map(rect => rect.x + rect.w)) - x,
+            h: Math.max(...rects.map(rect => rect.y + rect.h)) - y
+        };
+    },
+
+    /**
+     * Pont a területen van-e
+     * @param {array<Rect>} region
+     * @param {object} point - {x,y}
+     * @return {boolean}
+     * @description
+     *  A pixelekhez hasonlóan a téglalapok bal és felső éle a területhez tartozik, a jobb és alsó nem, így a szomszédos
+     *  téglalapok határán lévő pont is a területen van.
+     */
+    containsPoint: function(region: Rect[], point: Coord): boolean {
+        return region.some(rect => isValid(rect) &&
+            rect.x <= point.x && point.x < rect.x + rect.w && rect.y <= point.y && point.y < rect.y + rect.h);
+    },
+
+    /**
+     * A terület teljesen lefedi-e a téglalapot
+     * @param {array<Rect>} region
+     * @param {object} rect - {x,y,w,h}
+     * @return {boolean} (nulla méretű téglalap esetén true)
+     */
+    containsRect: function(region: Rect[], rect: Rect): boolean {
+        return !Region.subtract([rect], region).length;
+    },
+
+    /**
+     * A terület és a téglalap átfedi-e egymást
+     * @param {array<Rect>} region
+     * @param {object} rect - {x,y,w,h}
+     * @return {boolean} (az élek érintkezése nem átfedés)
+     */
+    intersectsRect: function(region: Rect[], rect: Rect): boolean {
+        return region.some((item) => {
+            const intersect = getRectIntersection(item, rect);
+            return intersect.w > 0 && intersect.h > 0;
+        });
+    },
+
+    /**
+     * A tároló szabad része
+     * @param {array<Rect>} region - a foglalt terület
+     * @param {object} container - {x,y,w,h}
+     * @return {Region}
+     */
+    getFreeSpace: function(region: Rect[], container: Rect): Region {
+        return Region.subtract([container], region);
+    },
+
+    /**
+     * Adott méretű szabad hely keresése
+     * @param {array<Rect>} region - a foglalt terület
+     * @param {object} container - {x,y,w,h}
+     * @param {number} w - szélesség
+     * @param {number} h - magasság
+     * @return {object | null} a legfelső, azon belül legbalrább eső szabad {x,y,w,h} vagy null, ha nincs hely
+     * @example
+     *  const slot = Region.findFreeRect(widgets.map(widget => widget.rect), canvas, 200, 120);
+     */
+    findFreeRect: function(region: Rect[], container: Rect, w: number, h: number): Rect | null {
+        const rects = region.filter(isValid);
+        // a legfelső-legbalabb szabad hely teteje a tároló tetején vagy egy téglalap alján, bal éle
+        // a tároló bal szélén vagy egy téglalap jobb szélén van
+        const ys = getEdges([container.y, ...rects.map(rect => rect.y + rect.h)])
+            .filter(y => y >= container.y && y + h <= container.y + container.h);
+        const xs = getEdges([container.x, ...rects.map(rect => rect.x + rect.w)])
+            .filter(x => x >= container.x && x + w <= container.x + container.w);
+        for (const y of ys) {
+            for (const x of xs) {
+                const candidate = { x, y, w, h };
+                if (!Region.intersectsRect(rects, candidate)) {
+                    return candidate;
+                }
+            }
+        }
+        return null;
+    }
+
+};
@@ -0,0 +1,163 @@
+/**
+ * Snapping
+ *
+ * @description Téglalapok illesztése rácshoz, segédvonalakhoz és más téglalapokhoz mozgatás és átméretezés közben
+ * @requires geometry
+ */
+
+import { Direction, LinearTouch, Rect, getRectTouchings } from './geometry';
+
+/**
+ * Megjelenítendő igazítási segédvonal
+ * @description
+ *  orientation: 'vertical' (x = position) vagy 'horizontal' (y = position)
+ *  type: 'edge' (élek egy vonalban), 'center' (valamelyik oldalon középvonal) vagy 'guide' (megadott segédvonal)
+ *  from, to: a vonal kiterjedése a másik tengely mentén (a mozgatott és az igazodási téglalapot is lefedi)
+ */
+export interface SnapGuide {
+    orientation: 'vertical' | 'horizontal';
+    position: number;
+    type: 'edge' | 'center' | 'guide';
+    from: number;
+    to: number;
+}
+
+/**
+ * A snapRect() beállításai
+ * @description
+ *  targets: a helyükön álló téglalapok, amelyek éleihez és középvonalaihoz illeszteni kell
+ *  grid: rácsméret (0: nincs rács)
+ *  guides: függőleges (x) és vízszintes (y) segédvonalak
+ *  threshold: az illesztés legnagyobb távolsága (alapértelmezett: 5)
+ *  edges: átméretezéskor a mozgatott oldalak (alapértelmezett: mozgatás, minden oldal együtt mozog)
+ */
+export interface SnapOptions {
+    targets?: Rect[];
+    grid?: number;
+    guides?: { vertical?: number[], horizontal?: number[] };
+    threshold?: number;
+    edges?: Direction[];
+}
+
+/**
+ * A snapRect() eredménye
+ * @description
+ *  rect: az illesztett téglalap
+ *  guides: az aktív igazítási segédvonalak
+ *  touching: a targets elemeivel érintkező oldalak (egy téglalapnál több is lehet)
+ */
+export interface SnapResult {
+    rect: Rect;
+    guides: SnapGuide[];
+    touching: (LinearTouch & { target: Rect })[];
+}
+
+/**
+ * Illeszthető vonal
+ */
+interface SnapLine {
+    position: number;
+    type: SnapGuide['type'];
+    target: Rect | null;
+}
+
+/**
+ * Kerekítési hibák elnyelése az illesztett értékek összehasonlításakor
+ * @type {number}
+ */
+const epsilon = 1e-6;
+
+/**
+ * Téglalap illesztése
+ * @param {Rect} rect - a mozgatott vagy átméretezett téglalap
+ * @param {SnapOptions} options - illesztési célok
+ * @return {SnapResult} {rect, guides, touching}
+ * @description
+ *  Tengelyenként a legközelebbi (threshold-on belüli) illesztés érvényes. Azonos távolság esetén a téglalapok és
+ *  segédvonalak elsőbbséget élveznek a ráccsal szemben.
+ * @example
+ *  const { rect, guides } = snapRect(dragged, { targets: others, grid: 8, guides: { vertical: [480] } });
+ */
+export const snapRect = function(rect: Rect, options: SnapOptions = {}): SnapResult {
+    const threshold = options.threshold ?? 5;
+    const targets = options.targets ?? [];
+    const resizing = Boolean(options.edges?.length);
+
+    const axes = [true, false].map((vertical) => {
+        const [pos, size, crossPos, crossSize] = vertical ? ['x', 'w', 'y', 'h'] as const : ['y', 'h', 'x', 'w'] as const;
+        const [startEdge, endEdge] = vertical ? [Direction.Left, Direction.Right] : [Direction.Top, Direction.Bottom];
+        const moveStart = !resizing || Boolean(options.edges?.includes(startEdge));
+        const moveEnd = !resizing || Boolean(options.edges?.includes(endEdge));
+        // a mozgó vonalak helyzete a téglalap elejéhez és hosszához képest
+        const anchors = [
+            ...(moveStart ? [{ at: 0, type: 'edge' }] : []),
+            ...(!resizing ? [{ at: 0.5, type: 'center' }] : []),
+            ...(moveEnd ? [{ at: 1, type: 'edge' }] : [])
+        ];
+        const lines: SnapLine[] = [
+            ...targets.flatMap(target => [
+                { position: target[pos], type: 'edge' as const, target },
+                { position: target[pos] + target[size] / 2, type: 'center' as const, target },
+                { position: target[pos] + target[size], type: 'edge' as const, target }
+            ]),
+            ...((vertical ? options.guides?.vertical : options.guides?.horizontal) ?? [])
+                .map(position => ({ position, type: 'guide' as const, target: null }))
+        ];
+        let delta = Infinity;
+        anchors.forEach((anchor) => {
+            const value = rect[pos] + anchor.at * rect[size];
+            const candidates = lines.map(line => line.position);
+            if (options.grid && anchor.type === 'edge') {
+                candidates.push(Math.round(value / options.grid) * options.grid);
+            }
+            candidates.forEach((candidate) => {
+                if (Math.abs(candidate - value) <= threshold && Math.abs(candidate - value) < Math.abs(delta)) {
+                    delta = candidate - value;
+                }
+            });
+        });
+        if (delta === Infinity) {
+            delta = 0;
+        }
+        return {
+            vertical, pos, size, crossPos, crossSize, anchors, lines,
+            start: rect[pos] + (moveStart ? delta : 0),
+            length: rect[size] + (resizing ? (moveStart ? -delta : delta) : 0)
+        };
+    });
+    const [horizontal, vertical] = axes;
+    const snapped = { x: horizontal.start, y: vertical.start, w: horizontal.length, h: vertical.length };
+
+    const guides: SnapGuide[] = [];
+    axes.forEach((axis) => {
+        const { crossPos, crossSize } = axis;
+        axis.lines.forEach((line) => {
+            const matches = axis.anchors.filter(anchor => Math.abs(axis.start + anchor.at * axis.length - line.position) < epsilon);
+            if (!matches.length) {
+                return;
+            }
+            const type = line.type === 'guide' ? 'guide' :
+                line.type === 'center' || matches.some(anchor => anchor.type === 'center') ? 'center' : 'edge';
+            const from = Math.min(snapped[crossPos], line.target ? line.target[crossPos] : Infinity);
+            const to = Math.max(
+                snapped[crossPos] + snapped[crossSize],
+                line.target ? line.target[crossPos] + line.target[crossSize] : -Infinity
+            );
+            const existing = guides.find(guide => guide.orientation === (axis.vertical ? 'vertical' : 'horizontal') &&
+                Math.abs(guide.position - line.position) < epsilon && guide.type === type);
+            if (existing) {
+                existing.from = Math.min(existing.from, from);
+                existing.to = Math.max(existing.to, to);
+            }
+            else {
+                guides.push({ orientation: axis.vertical ? 'vertical' : 'horizontal', position: line.position, type, from, to });
+            }
+        });
+    });
+
+    return {
+        rect: snapped,
+        guides,
+        touching: targets.flatMap(target => getRectTouchings(snapped, target, epsilon).map(touch => ({ ...touch, target })))
+    };
+};
@@ -1,4 +1,5 @@
 import { cloneDeep, isEqual, pick } from 'lodash';
+import { Bezier, parseSvgPath } from './bezier';
 
 export type Data<T> = Record<string, T>;
 
@@ -481,6 +482,15 @@ export const SVG = {
         });
     },
 
+    /**
+     * SVG útvonal görbéi mintavételezéshez (lásd bezier.ts)
+     * @param {SVGPathElement | string} path - path elem vagy a d attribútum értéke
+     * @return {array<Bezier>} abszolút koordinátájú szakaszok és görbék
+     */
+    pathToCurves: function(path: SVGPathElement | string): Bezier[] {
+        return parseSvgPath(typeof path === 'string' ? path : path.getAttribute('d') ?? '');
+    },
+
     /**
      * SVG data url konvertálása base64-el kódolt PNG-vé
      * @param {string} svgDataUrl - kódolt svg
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import {
+    getBezierBounds, getBezierDerivative, getBezierLength, getBezierParameterAt, getBezierPoint, getBezierTangent,
+    getCatmullRomCurves, getClosestPointOnBezier, getPathLength, parseSvgPath, samplePath, splitBezier
+} from '../src/bezier';
+import { distance } from '../src/geometry';
+
+const expectCoord = (actual: { x: number, y: number }, x: number, y: number, digits: number = 6) => {
+    expect(actual.x).toBeCloseTo(x, digits);
+    expect(actual.y).toBeCloseTo(y, digits);
+};
+
+describe('Bezier', () => {
+    const cubic = [{ x: 0, y: 0 }, { x: 0, y: 100 }, { x: 100, y: 100 }, { x: 100, y: 0 }];
+    const quadratic = [{ x: 0, y: 0 }, { x: 50, y: 100 }, { x: 100, y: 0 }];
+
+    it('should evaluate points, derivatives and tangents', () => {
+        expectCoord(getBezierPoint(cubic, 0.5), 50, 75);
+        expectCoord(getBezierPoint(quadratic, 0.5), 50, 50);
+        expectCoord(getBezierDerivative(cubic, 0), 0, 300);
+        expectCoord(getBezierDerivative(quadratic, 1), 100, -200);
+        expectCoord(getBezierTangent(cubic, 0.5), 1, 0);
+        // a kezdőponttal egybeeső vezérlőpont esetén is van érintő
+        const degenerate = [{ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 10, y: 10 }, { x: 20, y: 10 }];
+        expectCoord(getBezierTangent(degenerate, 0), Math.SQRT1_2, Math.SQRT1_2, 3);
+    });
+
+    it('should split curves with de Casteljau', () => {
+        const [left, right] = splitBezier(cubic, 0.3);
+        expect(left).toHaveLength(4);
+        expectCoord(left[3], getBezierPoint(cubic, 0.3).x, getBezierPoint(cubic, 0.3).y);
+        expectCoord(getBezierPoint(left, 0.5), getBezierPoint(cubic, 0.15).x, getBezierPoint(cubic, 0.15).y);
+        expectCoord(getBezierPoint(right, 0.5), getBezierPoint(cubic, 0.65).x, getBezierPoint(cubic, 0.65).y);
+    });
+
+    it('should calculate tight bounds', () => {
+        const bounds = getBezierBounds(cubic);
+        expect(bounds.x).toBeCloseTo(0);
+        expect(bounds.w).toBeCloseTo(100);
+        expect(bounds.h).toBeCloseTo(75);
+        expect(getBezierBounds(quadratic).h).toBeCloseTo(50);
+        expect(getBezierBounds([{ x: 5, y: 5 }, { x: -5, y: 10 }])).toEqual({ x: -5, y: 5, w: 10, h: 5 });
+    });
+
+    it('should parametrise by arc length', () => {
+        expect(getBezierLength([{ x: 0, y: 0 }, { x: 30, y: 40 }])).toBeCloseTo(50);
+        // negyedkör közelítése: a hossz közel r·π/2
+        const k = 0.5522847498 * 100;
+        const quarter = [{ x: 100, y: 0 }, { x: 100, y: k }, { x: k, y: 100 }, { x: 0, y: 100 }];
+        expect(getBezierLength(quarter)).toBeCloseTo(50 * Math.PI, 1);
+        const total = getBezierLength(cubic);
+        [0.1, 0.25, 0.5, 0.9].forEach((ratio) => {
+            expect(getBezierLength(cubic, getBezierParameterAt(cubic, ratio * total))).toBeCloseTo(ratio * total, 6);
+        });
+        expect(getBezierParameterAt(cubic, -5)).toEqual(0);
+        expect(getBezierParameterAt(cubic, total + 5)).toEqual(1);
+    });
+
+    it('should find the closest point', () => {
+        const closest = getClosestPointOnBezier(cubic, { x: 50, y: 200 });
+        expect(closest.t).toBeCloseTo(0.5);
+        expect(closest.distance).toBeCloseTo(125);
+        expect(getClosestPointOnBezier(cubic, { x: -10, y: -10 }).t).toEqual(0);
+    });
+
+    it('should build Catmull-Rom splines through the points', () => {
+        const points = [{ x: 0, y: 0 }, { x: 10, y: 20 }, { x: 30, y: 10 }, { x: 40, y: 40 }];
+        const curves = getCatmullRomCurves(points);
+        expect(curves).toHaveLength(3);
+        curves.forEach((curve, i) => {
+            expect(curve[0]).toEqual(points[i]);
+            expect(curve[3]).toEqual(points[i + 1]);
+        });
+        // folytonos érintő a csatlakozásoknál
+        expectCoord(getBezierTangent(curves[0], 1), getBezierTangent(curves[1], 0).x, getBezierTangent(curves[1], 0).y);
+        expect(getCatmullRomCurves(points, 0.5, true)).toHaveLength(4);
+        expect(getCatmullRomCurves([points[0]])).toEqual([]);
+    });
+});
+
+describe('parseSvgPath', () => {
+    it('should parse absolute and relative commands', () => {
+        const curves = parseSvgPath('M10,10 h80 v 20 L 10 30 z m 5-5 l5 0');
+        expect(curves).toEqual([
+            [{ x: 10, y: 10 }, { x: 90, y: 10 }],
+            [{ x: 90, y: 10 }, { x: 90, y: 30 }],
+            [{ x: 90, y: 30 }, { x: 10, y: 30 }],
+            [{ x: 10, y: 30 }, { x: 10, y: 10 }],
+            [{ x: 15, y: 5 }, { x: 20, y: 5 }]
+        ]);
+        expect(getPathLength(curves)).toBeCloseTo(80 + 20 + 80 + 20 + 5);
+        expect(parseSvgPath('M0 0 10 0 10 10')).toHaveLength(2);
+    });
+
+    it('should reflect control points of smooth curves', () => {
+        expect(parseSvgPath('M0 0 C 0 10 10 10 10 0 S 20 -10 20 0')[1]).toEqual([
+            { x: 10, y: 0 }, { x: 10, y: -10 }, { x: 20, y: -10 }, { x: 20, y: 0 }
+        ]);
+        expect(parseSvgPath('M0 0 Q 5 10 10 0 t 10 0')[1]).toEqual([{ x: 10, y: 0 }, { x: 15, y: -10 }, { x: 20, y: 0 }]);
+    });
+
+    it('should convert arcs to cubic curves', () => {
+        // félkör 10 sugárral, elválasztó nélküli jelzőkkel
+        const curves = parseSvgPath('M0 0a10 10 0 1120 0');
+        expect(curves).toHaveLength(2);
+        expectCoord(curves[1][3], 20, 0);
+        expect(getPathLength(curves)).toBeCloseTo(10 * Math.PI, 1);
+        samplePath(curves, 20).forEach(point => expect(distance(point, { x: 10, y: 0 })).toBeCloseTo(10, 1));
+        // a sweep-flag=1 a képernyőn az óramutató járásával megegyező irány: a félkör felfelé (negatív y) halad
+        expect(getBezierPoint(curves[0], 1).y).toBeLessThan(0);
+    });
+
+    it('should reject malformed paths', () => {
+        expect(() => parseSvgPath('M 0 0 L 10')).toThrow('Invalid SVG path');
+        expect(() => parseSvgPath('10 10')).toThrow('Invalid SVG path');
+        expect(() => parseSvgPath('M 0 0 X 5 5')).toThrow('Invalid SVG path');
+        expect(parseSvgPath('')).toEqual([]);
+    });
+
+    it('should sample evenly along the path', () => {
+        const points = samplePath(parseSvgPath('M0 0 H 10 V 10'), 5);
+        [[0, 0], [5, 0], [10, 0], [10, 5], [10, 10]].forEach(([x, y], i) => expectCoord(points[i], x, y));
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { Cron, parseCron } from '../src/cron';
+import { format, parse } from '../src/datetime';
+
+const options = { timezone: 'Europe/Budapest' };
+const at = (wall: string) => parse('Y-m-d H:i:s', wall, options) as number;
+const show = (timestamps: number[]) => timestamps.map(timestamp => format('Y-m-d H:i:s D', timestamp, options));
+
+describe('parseCron', () => {
+    it('should parse lists, ranges, steps and names', () => {
+        const fields = parseCron('*/15 9-17/4 1,15 JAN-MAR mon-fri');
+        expect(fields.seconds).toEqual([0]);
+        expect(fields.minutes).toEqual([0, 15, 30, 45]);
+        expect(fields.hours).toEqual([9, 13, 17]);
+        expect(fields.days).toEqual([1, 15]);
+        expect(fields.months).toEqual([1, 2, 3]);
+        expect(fields.weekdays).toEqual([1, 2, 3, 4, 5]);
+        expect(parseCron('10/20 * * * * 7').seconds).toEqual([10, 30, 50]);
+        expect(parseCron('10/20 * * * * 7').weekdays).toEqual([0]);
+        expect(parseCron('@daily').source).toEqual(['0', '0', '0', '*', '*', '*']);
+    });
+
+    it('should parse special characters', () => {
+        expect(parseCron('0 0 L * *').lastDay).toBe(true);
+        expect(parseCron('0 0 LW * *').lastWorkday).toBe(true);
+        expect(parseCron('0 0 15W * *').nearestWorkdays).toEqual([15]);
+        expect(parseCron('0 0 * * 5L').lastWeekdays).toEqual([5]);
+        expect(parseCron('0 0 * * MON#2').nthWeekdays).toEqual([[1, 2]]);
+    });
+
+    it('should reject invalid expressions', () => {
+        expect(() => parseCron('* * * *')).toThrow('Invalid cron expression: * * * *');
+        expect(() => parseCron('60 * * * *')).toThrow('Invalid cron minute: 60');
+        expect(() => parseCron('* * * FOO *')).toThrow('Invalid cron month: FOO');
+        expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron minute step: */0');
+        expect(() => parseCron('* 5-2 * * *')).toThrow('Invalid cron hour range: 5-2');
+    });
+});
+
+describe('Cron', () => {
+    it('should compute next and previous occurrences', () => {
+        const job = Cron('0 9 * * MON-FRI', options);
+        expect(show(job.next(3, at('2026-10-16 10:00:00')))).toEqual([
+            '2026-10-19 09:00:00 Mon', '2026-10-20 09:00:00 Tue', '2026-10-21 09:00:00 Wed'
+        ]);
+        expect(show(job.prev(2, at('2026-10-19 09:00:00')))).toEqual([
+            '2026-10-16 09:00:00 Fri', '2026-10-15 09:00:00 Thu'
+        ]);
+        expect(show(Cron('*/20 * * * * *', options).next(3, at('2026-10-16 10:00:00')))).toEqual([
+            '2026-10-16 10:00:20 Fri', '2026-10-16 10:00:40 Fri', '2026-10-16 10:01:00 Fri'
+        ]);
+    });
+
+    it('should handle L, W and # days', () => {
+        const from = at('2026-01-01 00:00:00');
+        expect(show(Cron('0 0 L * *', options).next(3, from))).toEqual([
+            '2026-01-31 00:00:00 Sat', '2026-02-28 00:00:00 Sat', '2026-03-31 00:00:00 Tue'
+        ]);
+        expect(show(Cron('0 0 LW * *', options).next(2, from))).toEqual([
+            '2026-01-30 00:00:00 Fri', '2026-02-27 00:00:00 Fri'
+        ]);
+        // 2026. február 1. vasárnap, március 1. vasárnap, augusztus 1. szombat
+        expect(show(Cron('0 0 1W 2,3,8 *', options).next(3, from))).toEqual([
+            '2026-02-02 00:00:00 Mon', '2026-03-02 00:00:00 Mon', '2026-08-03 00:00:00 Mon'
+        ]);
+        expect(show(Cron('0 0 * * FRI#2', options).next(2, from))).toEqual([
+            '2026-01-09 00:00:00 Fri', '2026-02-13 00:00:00 Fri'
+        ]);
+        expect(show(Cron('0 0 * * 1L', options).next(2, from))).toEqual([
+            '2026-01-26 00:00:00 Mon', '2026-02-23 00:00:00 Mon'
+        ]);
+        expect(show(Cron('0 0 29 2 *', options).next(2, from))).toEqual([
+            '2028-02-29 00:00:00 Tue', '2032-02-29 00:00:00 Sun'
+        ]);
+    });
+
+    it('should match either day of month or day of week when both are restricted', () => {
+        expect(show(Cron('0 0 13 * FRI', options).next(3, at('2026-02-01 00:00:00')))).toEqual([
+            '2026-02-06 00:00:00 Fri', '2026-02-13 00:00:00 Fri', '2026-02-20 00:00:00 Fri'
+        ]);
+    });
+
+    it('should respect the timezone and DST transitions', () => {
+        const job = Cron('30 2 * * *', options);
+        // 2026-03-29 02:30 nem létezik Budapesten, 2026-10-25 02:30 kétszer is előfordul
+        expect(show(job.next(3, at('2026-03-28 00:00:00')))).toEqual([
+            '2026-03-28 02:30:00 Sat', '2026-03-29 03:30:00 Sun', '2026-03-30 02:30:00 Mon'
+        ]);
+        expect(job.next(3, at('2026-10-24 00:00:00')).map((timestamp, index, list) => list[index + 1] - timestamp))
+            .toEqual([25 * 3600, 24 * 3600, NaN]);
+        expect(format('H:i', Cron('0 9 * * *', { timezone: 'America/New_York' }).next(1, at('2026-07-01 00:00:00'))[0], options))
+            .toEqual('15:00');
+    });
+
+    it('should handle DST transitions west of UTC', () => {
+        const newYork = { timezone: 'America/New_York' };
+        const showNewYork = (timestamps: number[]) => timestamps.map(timestamp => format('Y-m-d H:i T', timestamp, newYork));
+        const from = (wall: string) => parse('Y-m-d H:i:s', wall, newYork) as number;
+        // 2024-03-10 02:30 nem létezik New Yorkban, 2024-11-03 01:30 kétszer is előfordul
+        expect(showNewYork(Cron('0 30 2 * * *', newYork).next(2, from('2024-03-09 12:00:00')))).toEqual([
+            '2024-03-10 03:30 EDT', '2024-03-11 02:30 EDT'
+        ]);
+        const overlap = Cron('0 30 1 * * *', newYork).next(3, from('2024-11-02 12:00:00'));
+        expect(showNewYork(overlap)).toEqual(['2024-11-03 01:30 EST', '2024-11-04 01:30 EST', '2024-11-05 01:30 EST']);
+        expect(overlap[0]).toEqual(Date.UTC(2024, 10, 3, 6, 30) / 1000);
+        expect(Cron('0 30 1 * * *', newYork).prev(1, from('2024-11-03 12:00:00'))[0]).toEqual(overlap[0]);
+    });
+
+    it('should describe the schedule', () => {
+        expect(Cron('0 9 * * MON-FRI').describe()).toEqual('At 09:00, on Monday through Friday');
+        expect(Cron('*/5 * * * *').describe()).toEqual('Every 5 minutes');
+        expect(Cron('* * * * *').describe()).toEqual('Every minute');
+        expect(Cron('15 30 2 1,15 * *').describe()).toEqual('At 02:30:15, on day 1 and 15 of the month');
+        expect(Cron('0 9-17 * * *').describe()).toEqual('At minute 0, during the hour of 09:00 through 17:00');
+        expect(Cron('0 0 L * *').describe()).toEqual('At 00:00, on the last day of the month');
+        expect(Cron('0 0 * JAN-MAR 1#2').describe()).toEqual('At 00:00, on the second Monday of the month, only in January through March');
+        expect(Cron('0 0 13 * FRI').describe()).toEqual('At 00:00, on day 13 of the month or on Friday');
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { add, format, parse } from '../src/datetime';
+import {
+    formatDuration, formatRange, getRangeGaps, getRangeIntersection, mergeRanges, parseDuration, parseRange,
+    rangesOverlap, splitRange
+} from '../src/daterange';
+
+const options = { timezone: 'Europe/Budapest' };
+const at = (wall: string) => parse('Y-m-d H:i', wall, options) as number;
+const show = (timestamp: number) => format('m-d H:i', timestamp, options);
+
+describe('ISO 8601 durations', () => {
+    it('should parse and format durations', () => {
+        expect(parseDuration('P1Y2M3DT4H')).toEqual({ years: 1, months: 2, days: 3, hours: 4 });
+        expect(parseDuration('PT1M30.5S')).toEqual({ minutes: 1, seconds: 30.5 });
+        expect(parseDuration('-P2W')).toEqual({ weeks: -2 });
+        expect(formatDuration({ years: 1, months: 2, days: 3, hours: 4 })).toEqual('P1Y2M3DT4H');
+        expect(formatDuration({ minutes: 5 })).toEqual('PT5M');
+        expect(formatDuration({ weeks: -2 })).toEqual('-P2W');
+        expect(formatDuration({})).toEqual('PT0S');
+        ['P1Y2M3DT4H5M6S', 'P2W', 'PT0.5S'].forEach((text) => {
+            expect(formatDuration(parseDuration(text))).toEqual(text);
+        });
+    });
+
+    it('should reject invalid durations', () => {
+        ['P', 'PT', '1Y', 'P1H', 'P1DT', 'PT1D'].forEach((text) => {
+            expect(() => parseDuration(text)).toThrow(`Invalid ISO 8601 duration: ${text}`);
+        });
+    });
+
+    it('should add durations DST-aware', () => {
+        // 2026-03-29: Budapesten 23 órás nap
+        const start = at('2026-03-28 12:00');
+        expect(add(start, parseDuration('P1D'), options) - start).toEqual(23 * 3600);
+        expect(add(start, parseDuration('PT24H'), options) - start).toEqual(24 * 3600);
+        expect(show(add(start, parseDuration('PT24H'), options))).toEqual('03-29 13:00');
+        expect(add(at('2026-10-24 12:00'), parseDuration('P1D'), options) - at('2026-10-24 12:00')).toEqual(25 * 3600);
+    });
+});
+
+describe('ISO 8601 intervals', () => {
+    it('should parse start/end, start/duration and duration/end', () => {
+        const shift = { start: at('2026-10-19 08:00'), end: at('2026-10-19 16:00') };
+        expect(parseRange('2026-10-19T08:00/2026-10-19T16:00', options)).toEqual(shift);
+        expect(parseRange('2026-10-19T08:00/PT8H', options)).toEqual(shift);
+        expect(parseRange('P1D/2026-10-20', options)).toEqual({ start: at('2026-10-19 00:00'), end: at('2026-10-20 00:00') });
+        expect(parseRange('2026-10-19T06:00Z/2026-10-19T10:00+02:00')).toEqual({
+            start: Date.UTC(2026, 9, 19, 6) / 1000, end: Date.UTC(2026, 9, 19, 8) / 1000
+        });
+        expect(parseRange('2026-10-19T06:00:00.5Z/PT0.5S').end).toEqual(Date.UTC(2026, 9, 19, 6, 0, 1) / 1000);
+    });
+
+    it('should reject invalid intervals', () => {
+        ['2026-10-19', '2026-10-19/2026-10-18', '2026-02-30/P1D', 'P1D/P2D', '2026-10-19/foo'].forEach((text) => {
+            expect(() => parseRange(text, options)).toThrow(`Invalid ISO 8601 interval: ${text}`);
+        });
+    });
+
+    it('should format intervals', () => {
+        expect(formatRange(parseRange('2026-10-19T08:00/PT8H', options), options))
+            .toEqual('2026-10-19T08:00:00+02:00/2026-10-19T16:00:00+02:00');
+        const [start, end] = formatRange({ start: at('2026-10-19 08:00'), end: at('2026-10-19 16:00') }, options).split('/');
+        expect([parse('c', start, options), parse('c', end, options)]).toEqual([at('2026-10-19 08:00'), at('2026-10-19 16:00')]);
+    });
+});
+
+describe('range operations', () => {
+    const range = (from: string, to: string) => ({ start: at(`2026-10-19 ${from}`), end: at(`2026-10-19 ${to}`) });
+    const text = (ranges: { start: number, end: number }[]) => ranges.map(item => `${show(item.start)}-${show(item.end)}`);
+
+    it('should detect overlaps and intersections', () => {
+        expect(rangesOverlap(range('08:00', '10:00'), range('09:00', '11:00'))).toBe(true);
+        expect(rangesOverlap(range('08:00', '10:00'), range('10:00', '11:00'))).toBe(false);
+        expect(getRangeIntersection(range('08:00', '10:00'), range('09:00', '11:00'))).toEqual(range('09:00', '10:00'));
+        expect(getRangeIntersection(range('08:00', '12:00'), range('09:00', '11:00'))).toEqual(range('09:00', '11:00'));
+        expect(getRangeIntersection(range('08:00', '10:00'), range('10:00', '11:00'))).toBeNull();
+    });
+
+    it('should merge ranges and find gaps', () => {
+        const bookings = [range('13:00', '14:00'), range('08:00', '09:00'), range('08:30', '10:00'), range('10:00', '10:30')];
+        expect(text(mergeRanges(bookings))).toEqual(['10-19 08:00-10-19 10:30', '10-19 13:00-10-19 14:00']);
+        expect(text(getRangeGaps(bookings))).toEqual(['10-19 10:30-10-19 13:00']);
+        expect(text(getRangeGaps(bookings, range('07:00', '18:00')))).toEqual([
+            '10-19 07:00-10-19 08:00', '10-19 10:30-10-19 13:00', '10-19 14:00-10-19 18:00'
+        ]);
+        expect(text(getRangeGaps(bookings, range('09:00', '13:30')))).toEqual(['10-19 10:30-10-19 13:00']);
+        expect(getRangeGaps([])).toEqual([]);
+        expect(bookings[1]).toEqual(range('08:00', '09:00'));
+    });
+
+    it('should split ranges into days and weeks', () => {
+        const shifts = splitRange({ start: at('2026-03-28 20:00'), end: at('2026-03-30 06:00') }, 'day', options);
+        expect(text(shifts)).toEqual(['03-28 20:00-03-29 00:00', '03-29 00:00-03-30 00:00', '03-30 00:00-03-30 06:00']);
+        expect(shifts[1].end - shifts[1].start).toEqual(23 * 3600);
+        const weeks = splitRange({ start: at('2026-10-01 00:00'), end: at('2026-10-20 00:00') }, 'week', options);
+        expect(weeks.map(week => format('D m-d', week.start, options))).toEqual(['Thu 10-01', 'Mon 10-05', 'Mon 10-12', 'Mon 10-19']);
+    });
+});
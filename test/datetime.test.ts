@@ -0,0 +1,426 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+    add, addWorkingDays, calendarMonth, calendarYear, diff, endOf, format, formatInterval, fromNow, fromWall, getEaster,
+    getHolidayCalendar, getLocale, isWorkingDay, parse, registerLocale, relative, shiftCalendarMonth, startOf, sub,
+    translateFormat, workingDaysBetween
+} from '../src/datetime';
+
+describe('parse', () => {
+    const timestamp = Date.UTC(2023, 9, 16, 8, 5, 9) / 1000;
+
+    it('should invert format for lossless formats', () => {
+        [
+            'Y-m-d H:i:s',
+            'Y-m-d\\TH:i:sP',
+            'D, d M Y H:i:s O',
+            'l, j F Y, g:i:s a',
+            'n/j/y h:i:s A',
+            'U'
+        ].forEach((form) => {
+            expect(parse(form, format(form, timestamp))).toEqual(timestamp);
+        });
+    });
+
+    it('should apply the offset of O and P', () => {
+        expect(parse('Y-m-d H:i O', '2023-10-16 10:05 +0200')).toEqual(Date.UTC(2023, 9, 16, 8, 5) / 1000);
+        expect(parse('Y-m-d H:i P', '2023-10-16 03:05 -05:00')).toEqual(Date.UTC(2023, 9, 16, 8, 5) / 1000);
+    });
+
+    it('should match escaped characters literally', () => {
+        expect(parse('\\Y\\e\\a\\r: Y', 'Year: 2023')).toEqual(parse('Y', '2023'));
+    });
+
+    it('should report the failing token and its position', () => {
+        expect(parse('Y-m-d', '2023-1x-16')).toEqual({
+            type: 'parse', message: 'Unable to parse \'m\'', token: 'm', position: 5
+        });
+        expect(parse('Y-m-d', '2023-13-16')).toMatchObject({ token: 'm', position: 5 });
+        expect(parse('Y-m-d', '2023-02-29')).toMatchObject({ token: 'd', position: 8 });
+        expect(parse('Y-m-d', '2024-02-29')).toEqual(expect.any(Number));
+        expect(parse('Y-m-d', '2023/02/01')).toMatchObject({ token: null, position: 4 });
+        expect(parse('Y-m-d', '2023-02-01 12:00')).toMatchObject({ token: null, position: 10 });
+    });
+
+    it('should expand the c and r tokens', () => {
+        const options = { timezone: 'Europe/Budapest' };
+        ['c', 'r', 'c (D)'].forEach((form) => {
+            expect(parse(form, format(form, timestamp))).toEqual(timestamp);
+            expect(parse(form, format(form, timestamp, options), options)).toEqual(timestamp);
+        });
+        expect(parse('\\c Y', 'c 2023')).toEqual(parse('Y', '2023'));
+        expect(parse('c', '2023-10-16 08:05:09')).toMatchObject({ token: null, position: 10 });
+    });
+
+    it('should reject tokens that cannot be parsed back', () => {
+        expect(parse('N', '1')).toEqual({
+            type: 'parse', message: 'Unsupported format token: N', token: 'N', position: 0
+        });
+        ['w', 'z', 'W', 't', 'L', 'o', 'B', 'v', 'e', 'I', 'T', 'Z'].forEach((token) => {
+            expect(parse(token, format(token, timestamp))).toMatchObject({ message: `Unsupported format token: ${token}`, token });
+        });
+        expect(parse('Y-m-d T', '2023-10-16 UTC')).toMatchObject({ token: 'T', position: 11 });
+    });
+});
+
+describe('format with timezone', () => {
+    // 2026-03-29 01:00 UTC: Budapest CET -> CEST; 2026-03-08 07:00 UTC: New York EST -> EDT
+    const beforeSpring = Date.UTC(2026, 2, 29, 0, 59, 59) / 1000;
+    const afterSpring = Date.UTC(2026, 2, 29, 1, 0, 0) / 1000;
+    const summer = Date.UTC(2026, 6, 15, 12, 0, 0) / 1000;
+    const winter = Date.UTC(2026, 0, 15, 12, 0, 0) / 1000;
+
+    it('should render the wall-clock time of the target zone', () => {
+        expect(format('Y-m-d H:i', summer, { timezone: 'Europe/Budapest' })).toEqual('2026-07-15 14:00');
+        expect(format('Y-m-d H:i', summer, { timezone: 'Europe/London' })).toEqual('2026-07-15 13:00');
+        expect(format('Y-m-d H:i', summer, { timezone: 'America/New_York' })).toEqual('2026-07-15 08:00');
+        expect(format('Y-m-d H:i', Date.UTC(2026, 0, 1, 2) / 1000, { timezone: 'America/New_York' })).toEqual('2025-12-31 21:00');
+    });
+
+    it('should handle DST transitions', () => {
+        const options = { timezone: 'Europe/Budapest' };
+        expect(format('H:i:s I O T', beforeSpring, options)).toEqual('01:59:59 0 +0100 CET');
+        expect(format('H:i:s I O T', afterSpring, options)).toEqual('03:00:00 1 +0200 CEST');
+        expect(format('c', Date.UTC(2026, 9, 25, 0, 30) / 1000, options)).toEqual('2026-10-25T02:30:00+02:00');
+        expect(format('c', Date.UTC(2026, 9, 25, 1, 30) / 1000, options)).toEqual('2026-10-25T02:30:00+01:00');
+        expect(format('H:i T', Date.UTC(2026, 2, 8, 7) / 1000, { timezone: 'America/New_York' })).toEqual('03:00 EDT');
+    });
+
+    it('should render timezone tokens', () => {
+        expect(format('e T P Z', winter, { timezone: 'Europe/London' })).toEqual('Europe/London GMT +00:00 0');
+        expect(format('e T P Z', summer, { timezone: 'Europe/London' })).toEqual('Europe/London BST +01:00 3600');
+        expect(format('T O', winter, { timezone: 'America/New_York' })).toEqual('EST -0500');
+        expect(format('T P', winter, { timezone: 'Asia/Kolkata' })).toEqual('+0530 +05:30');
+        expect(format('r', winter, { timezone: 'Europe/Budapest' })).toEqual('Thu, 15 Jan 2026 13:00:00 +0100');
+    });
+
+    it('should parse wall-clock time in the target zone', () => {
+        const options = { timezone: 'Europe/Budapest' };
+        expect(parse('Y-m-d H:i', '2026-07-15 14:00', options)).toEqual(summer);
+        expect(parse('Y-m-d H:i:s', '2026-03-29 01:59:59', options)).toEqual(beforeSpring);
+        // a nem létező 02:30 az óraátállítás utáni 03:30-at jelenti
+        expect(parse('Y-m-d H:i', '2026-03-29 02:30', options)).toEqual(Date.UTC(2026, 2, 29, 1, 30) / 1000);
+        expect(parse('Y-m-d H:i', '2026-07-15 08:00', { timezone: 'America/New_York' })).toEqual(summer);
+    });
+
+    it('should resolve DST gaps and overlaps on both sides of UTC', () => {
+        const wall = (month: number, day: number, hour: number) => new Date(Date.UTC(2024, month - 1, day, hour, 30));
+        // a nem létező 02:30 az átállítás utáni 03:30, a kétszer előforduló 01:30 a későbbi
+        expect(fromWall(wall(3, 10, 2), 'America/New_York')).toEqual(Date.UTC(2024, 2, 10, 7, 30) / 1000);
+        expect(fromWall(wall(11, 3, 1), 'America/New_York')).toEqual(Date.UTC(2024, 10, 3, 6, 30) / 1000);
+        expect(fromWall(wall(3, 31, 2), 'Europe/Budapest')).toEqual(Date.UTC(2024, 2, 31, 1, 30) / 1000);
+        expect(fromWall(wall(10, 27, 2), 'Europe/Budapest')).toEqual(Date.UTC(2024, 9, 27, 1, 30) / 1000);
+        expect(fromWall(wall(7, 1, 12), 'America/New_York')).toEqual(Date.UTC(2024, 6, 1, 16, 30) / 1000);
+        expect(parse('Y-m-d H:i', '2024-03-10 02:30', { timezone: 'America/New_York' })).toEqual(Date.UTC(2024, 2, 10, 7, 30) / 1000);
+    });
+
+    it('should default missing date parts to the start of the given period', () => {
+        const options = { timezone: 'UTC' };
+        vi.useFakeTimers();
+        try {
+            vi.setSystemTime(Date.UTC(2023, 0, 31, 12));
+            expect(parse('Y-m', '2023-02', options)).toEqual(Date.UTC(2023, 1, 1) / 1000);
+            expect(parse('m', '02', options)).toEqual(Date.UTC(2023, 1, 1) / 1000);
+            expect(parse('d', '31', options)).toEqual(Date.UTC(2023, 0, 31) / 1000);
+            expect(parse('H:i', '08:30', options)).toEqual(Date.UTC(2023, 0, 31, 8, 30) / 1000);
+
+            vi.setSystemTime(Date.UTC(2024, 1, 29, 12));
+            expect(parse('Y', '2023', options)).toEqual(Date.UTC(2023, 0, 1) / 1000);
+            expect(parse('Y-m', '2023-02', options)).toEqual(Date.UTC(2023, 1, 1) / 1000);
+            expect(parse('d', '30', options)).toEqual({ type: 'parse', message: 'Invalid day of month: 30', token: 'd', position: 0 });
+        }
+        finally {
+            vi.useRealTimers();
+        }
+    });
+});
+
+describe('format with locale', () => {
+    const monday = Date.UTC(2026, 9, 19, 12) / 1000;
+    const options = { timezone: 'Europe/Budapest', locale: 'hu' };
+
+    it('should render Hungarian names', () => {
+        expect(format('Y. F j., l', monday, options)).toEqual('2026. október 19., hétfő');
+        expect(format('Y. M d. (D)', monday, options)).toEqual('2026. okt. 19. (H)');
+        expect(format('F jS', monday, options)).toEqual('október 19.');
+        expect(format('Y. F j., l', monday, { ...options, locale: 'hu-HU' })).toEqual('2026. október 19., hétfő');
+    });
+
+    it('should keep English as default with correct ordinals', () => {
+        const day = (d: number) => Date.UTC(2026, 0, d, 12) / 1000;
+        expect(format('l, F jS', day(1), { timezone: 'UTC' })).toEqual('Thursday, January 1st');
+        expect([2, 3, 4, 11, 12, 13, 21, 22, 23].map(d => format('jS', day(d), { timezone: 'UTC' })))
+            .toEqual(['2nd', '3rd', '4th', '11th', '12th', '13th', '21st', '22nd', '23rd']);
+    });
+
+    it('should derive names from Intl for unregistered locales', () => {
+        expect(format('l, j. F', monday, { timezone: 'UTC', locale: 'de' })).toEqual('Montag, 19. Oktober');
+    });
+
+    it('should use registered locales', () => {
+        registerLocale('xx', { ...getLocale('en'), ordinal: () => '!' });
+        expect(format('jS', monday, { timezone: 'UTC', locale: 'xx' })).toEqual('19!');
+    });
+
+    it('should parse localized names', () => {
+        expect(parse('Y. F j., l H:i', '2026. október 19., hétfő 14:00', options)).toEqual(monday);
+        expect(parse('Y. M j. H:i', '2026. okt. 19. 14:00', options)).toEqual(monday);
+        expect(parse('Y. M j. H:i', '2026. okt 19. 14:00', options)).toMatchObject({ token: 'M', position: 6 });
+    });
+});
+
+describe('format dialects', () => {
+    const timestamp = Date.UTC(2026, 2, 5, 7, 4, 9, 250) / 1000;
+    const options = { timezone: 'Europe/Budapest' };
+
+    it('should render strftime patterns', () => {
+        const strftime = { ...options, dialect: 'strftime' as const };
+        expect(format('%Y-%m-%d %H:%M:%S %z', timestamp, strftime)).toEqual('2026-03-05 08:04:09 +0100');
+        expect(format('%a %e %b|%-d/%-m|%j|%I%p|%k', timestamp, strftime)).toEqual('Thu  5 Mar|5/3|064|08AM| 8');
+        expect(format('%c', timestamp, strftime)).toEqual('Thu Mar  5 08:04:09 2026');
+        expect(format('100%% %F%n', timestamp, strftime)).toEqual('100% 2026-03-05\n');
+        expect(() => format('%Q', timestamp, strftime)).toThrow('Unsupported strftime token: %Q');
+    });
+
+    it('should render LDML patterns with quoted literals', () => {
+        const ldml = { ...options, dialect: 'ldml' as const };
+        expect(format('yyyy-MM-dd HH:mm:ss.SSS XXX', timestamp, ldml)).toEqual('2026-03-05 08:04:09.250 +01:00');
+        expect(format('EEEE, d MMMM yy \'at\' h:mm a', timestamp, ldml)).toEqual('Thursday, 5 March 26 at 8:04 AM');
+        expect(format('h \'o\'\'clock\' \'\'D\'\'', timestamp, ldml)).toEqual('8 o\'clock \'64\'');
+        expect(format('d. MMMM', timestamp, { ...ldml, locale: 'hu' })).toEqual('5. március');
+        expect(() => format('yyyy-QQ', timestamp, ldml)).toThrow('Unsupported ldml token: QQ');
+    });
+
+    it('should keep PHP escaping as default', () => {
+        expect(format('\\Y \\a\\t H:i', timestamp, options)).toEqual('Y at 08:04');
+        expect(format('Y-m-d H:i:s.v', timestamp, { ...options, dialect: 'php' })).toEqual('2026-03-05 08:04:09.250');
+    });
+
+    it('should render Intl presets', () => {
+        const intl = { ...options, dialect: 'intl' as const };
+        expect(format('date-short', timestamp, intl)).toEqual('3/5/26');
+        expect(format('time-short', timestamp, intl)).toEqual('8:04 AM');
+        expect(format('date-long', timestamp, { ...intl, locale: 'hu' })).toEqual('2026. március 5.');
+        expect(() => format('Y-m-d', timestamp, intl)).toThrow('Unknown Intl preset: Y-m-d');
+    });
+
+    it('should translate between dialects', () => {
+        expect(translateFormat('yyyy-MM-dd HH:mm', 'ldml', 'php')).toEqual('Y-m-d H:i');
+        expect(translateFormat('Y-m-d\\TH:i', 'php', 'strftime')).toEqual('%Y-%m-%dT%H:%M');
+        expect(translateFormat('Y-m-d\\TH:i', 'php', 'ldml')).toEqual('yyyy-MM-dd\'T\'HH:mm');
+        expect(translateFormat('%d %B, 100%%', 'strftime', 'ldml')).toEqual('dd MMMM, 100%');
+        expect(translateFormat('h \'o\'\'clock\' a', 'ldml', 'strftime')).toEqual('%-I o\'clock %p');
+        expect(translateFormat('h \'o\'\'clock\' a', 'ldml', 'php')).toEqual('g \\o\'\\c\\l\\o\\ck A');
+        expect(translateFormat('r', 'php', 'strftime')).toEqual('%a, %d %b %Y %H:%M:%S %z');
+        expect(translateFormat('c', 'php', 'ldml')).toEqual('yyyy-MM-dd\'T\'HH:mm:ssxxx');
+    });
+
+    it('should keep translated formats equivalent', () => {
+        ['Y-m-d H:i:s', 'D, d M Y', 'l j \\of F', 'g:i A'].forEach((form) => {
+            ['strftime', 'ldml'].forEach((dialect) => {
+                const translated = translateFormat(form, 'php', dialect as 'strftime' | 'ldml');
+                expect(format(translated, timestamp, { ...options, dialect: dialect as 'strftime' | 'ldml' }))
+                    .toEqual(format(form, timestamp, options));
+            });
+        });
+    });
+
+    it('should reject untranslatable tokens', () => {
+        expect(() => translateFormat('%e', 'strftime', 'php')).toThrow('Token j has no php equivalent');
+        expect(() => translateFormat('jS', 'php', 'ldml')).toThrow('Token S has no ldml equivalent');
+        expect(() => translateFormat('short', 'intl', 'php')).toThrow('Intl presets cannot be translated');
+    });
+});
+
+describe('date arithmetic', () => {
+    const options = { timezone: 'Europe/Budapest' };
+    const at = (wall: string) => parse('Y-m-d H:i:s', wall, options) as number;
+    const show = (timestamp: number) => format('Y-m-d H:i:s', timestamp, options);
+
+    it('should clamp to the end of month', () => {
+        expect(show(add(at('2026-01-31 10:00:00'), { months: 1 }, options))).toEqual('2026-02-28 10:00:00');
+        expect(show(add(at('2024-01-31 10:00:00'), { months: 1 }, options))).toEqual('2024-02-29 10:00:00');
+        expect(show(add(at('2024-02-29 10:00:00'), { years: 1 }, options))).toEqual('2025-02-28 10:00:00');
+        expect(show(sub(at('2026-03-31 10:00:00'), { months: 1 }, options))).toEqual('2026-02-28 10:00:00');
+        expect(show(add(at('2025-11-30 10:00:00'), { months: 3 }, options))).toEqual('2026-02-28 10:00:00');
+        expect(show(sub(at('2026-01-15 10:00:00'), { months: 13 }, options))).toEqual('2024-12-15 10:00:00');
+    });
+
+    it('should keep wall-clock time for calendar units across DST', () => {
+        expect(show(add(at('2026-03-28 12:00:00'), { days: 1 }, options))).toEqual('2026-03-29 12:00:00');
+        expect(show(add(at('2026-03-28 12:00:00'), { hours: 24 }, options))).toEqual('2026-03-29 13:00:00');
+        expect(show(add(at('2026-03-20 08:30:00'), { weeks: 1, minutes: 30 }, options))).toEqual('2026-03-27 09:00:00');
+    });
+
+    it('should find the start and end of calendar units', () => {
+        const timestamp = at('2026-10-18 15:20:00');
+        expect(show(startOf(timestamp, 'day', options))).toEqual('2026-10-18 00:00:00');
+        expect(show(startOf(timestamp, 'week', options))).toEqual('2026-10-12 00:00:00');
+        expect(show(endOf(timestamp, 'week', options))).toEqual('2026-10-18 23:59:59');
+        expect(show(startOf(timestamp, 'month', options))).toEqual('2026-10-01 00:00:00');
+        expect(show(endOf(timestamp, 'month', options))).toEqual('2026-10-31 23:59:59');
+        expect(show(startOf(timestamp, 'quarter', options))).toEqual('2026-10-01 00:00:00');
+        expect(show(endOf(at('2024-02-10 12:00:00'), 'quarter', options))).toEqual('2024-03-31 23:59:59');
+        expect(show(startOf(timestamp, 'year', options))).toEqual('2026-01-01 00:00:00');
+        expect(endOf(at('2026-03-29 12:00:00'), 'day', options) - startOf(at('2026-03-29 12:00:00'), 'day', options))
+            .toEqual(23 * 3600 - 1);
+    });
+
+    it('should use ISO weeks at year boundaries', () => {
+        expect(format('o-\\WW', at('2025-12-31 12:00:00'), options)).toEqual('2026-W01');
+        expect(format('o-\\WW', at('2027-01-01 12:00:00'), options)).toEqual('2026-W53');
+        expect(show(startOf(at('2027-01-01 12:00:00'), 'week', options))).toEqual('2026-12-28 00:00:00');
+    });
+
+    it('should calculate differences as intervals', () => {
+        const interval = diff(at('2026-01-31 10:00:00'), at('2026-03-01 14:05:06'), options);
+        expect(interval).toEqual({ y: 0, m: 1, d: 1, h: 4, i: 5, s: 6, f: 0, invert: 0, days: 29 });
+        expect(diff(at('2026-03-10 00:00:00'), at('2026-01-15 00:00:00'), options)).toMatchObject({ m: 1, d: 23, invert: 1 });
+        // a hónapok az add()-hoz hasonlóan csonkolódnak
+        expect(diff(at('2024-02-29 00:00:00'), at('2025-02-28 00:00:00'), options)).toMatchObject({ y: 1, m: 0, d: 0, days: 365 });
+        expect(formatInterval(interval, '%R%a days, %y-%M-%D %H:%I:%S %%')).toEqual('+29 days, 0-01-01 04:05:06 %');
+        expect(formatInterval(diff(10, 0), '%r%s')).toEqual('-10');
+    });
+});
+
+describe('relative', () => {
+    const base = Date.UTC(2026, 9, 19, 12) / 1000;
+
+    it('should pick the unit by thresholds', () => {
+        expect(relative(base - 180, base, { locale: 'hu' })).toEqual('3 perccel ezelőtt');
+        expect(relative(base + 2 * 86400, base)).toEqual('in 2 days');
+        expect(relative(base - 30, base)).toEqual('30 seconds ago');
+        expect(relative(base - 50, base)).toEqual('1 minute ago');
+        expect(relative(base - 23 * 3600, base)).toEqual('1 day ago');
+        expect(relative(base - 10 * 86400, base, { locale: 'hu' })).toEqual('1 héttel ezelőtt');
+        expect(relative(base + 60 * 86400, base, { locale: 'hu' })).toEqual('2 hónap múlva');
+        expect(relative(base - 400 * 86400, base)).toEqual('1 year ago');
+        expect(relative(base - 50, base, { thresholds: { second: 60 } })).toEqual('50 seconds ago');
+    });
+
+    it('should support styles and numeric auto', () => {
+        expect(relative(base - 180, base, { style: 'short' })).toEqual('3 min. ago');
+        expect(relative(base - 86400, base, { locale: 'hu', numeric: 'auto' })).toEqual('tegnap');
+    });
+
+    it('should switch to absolute format past the cutoff', () => {
+        const options = { locale: 'hu', timezone: 'Europe/Budapest', absolute: { after: 7 * 86400, format: 'Y. m. d.' } };
+        expect(relative(base - 6 * 86400, base, options)).toEqual('6 nappal ezelőtt');
+        expect(relative(base - 8 * 86400, base, options)).toEqual('2026. 10. 11.');
+    });
+
+    it('should default to the current time', () => {
+        expect(fromNow(Date.now() / 1000 - 120)).toEqual('2 minutes ago');
+    });
+});
+
+describe('calendarMonth', () => {
+    const options = { timezone: 'Europe/Budapest' };
+
+    it('should build weeks starting on Monday by default', () => {
+        const calendar = calendarMonth(2026, 2, options);
+        // 2026. február 1. vasárnap, 28 napos
+        expect(calendar.weeks).toHaveLength(5);
+        expect(calendar.weekdays).toEqual(['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']);
+        expect(calendar.weeks[0].map(day => day.day)).toEqual([26, 27, 28, 29, 30, 31, 1]);
+        expect(calendar.weeks[0][0]).toMatchObject({ year: 2026, month: 1, inMonth: false, week: 5 });
+        expect(calendar.weeks[0][6]).toMatchObject({ month: 2, inMonth: true, isWeekend: true, weekday: 0 });
+        expect(format('Y-m-d H:i', calendar.weeks[1][0].date, options)).toEqual('2026-02-02 00:00');
+        expect(calendar.weeks.map(week => week[0].week)).toEqual([5, 6, 7, 8, 9]);
+    });
+
+    it('should support week start, fixed rows and locale', () => {
+        expect(calendarMonth(2026, 2, { weekStart: 0 }).weeks).toHaveLength(4);
+        expect(calendarMonth(2026, 2, { weekStart: 0, fixedRows: true }).weeks).toHaveLength(6);
+        const us = calendarMonth(2026, 2, { locale: 'en-US' });
+        expect(us.weekdays[0]).toEqual('Sun');
+        expect(us.weeks[0][0].day).toEqual(1);
+        const hu = calendarMonth(2026, 10, { locale: 'hu' });
+        expect(hu.weekdays).toEqual(['H', 'K', 'Sze', 'Cs', 'P', 'Szo', 'V']);
+    });
+
+    it('should flag today and disabled days', () => {
+        const now = new Date();
+        const calendar = calendarMonth(now.getFullYear(), now.getMonth() + 1, {
+            disabled: (day) => day.weekday === 3
+        });
+        const days = calendar.weeks.flat();
+        expect(days.filter(day => day.isToday).map(day => day.day)).toEqual([now.getDate()]);
+        expect(days.filter(day => day.disabled).every(day => day.weekday === 3)).toBe(true);
+        expect(days.filter(day => day.disabled)).toHaveLength(calendar.weeks.length);
+    });
+
+    it('should move between months and build years', () => {
+        const december = calendarMonth(2026, 12);
+        expect(shiftCalendarMonth(december, 1)).toMatchObject({ year: 2027, month: 1 });
+        expect(shiftCalendarMonth(december, -12)).toMatchObject({ year: 2025, month: 12 });
+        expect(calendarYear(2024).map(calendar => calendar.month)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+        expect(calendarYear(2024)[1].weeks.flat().filter(day => day.inMonth)).toHaveLength(29);
+    });
+});
+
+describe('working days', () => {
+    const options = { timezone: 'Europe/Budapest' };
+    const at = (wall: string) => parse('Y-m-d H:i', wall, options) as number;
+    const show = (timestamp: number) => format('Y-m-d H:i', timestamp, options);
+
+    it('should calculate Easter', () => {
+        expect(getEaster(2024)).toEqual([3, 31]);
+        expect(getEaster(2025)).toEqual([4, 20]);
+        expect(getEaster(2026)).toEqual([4, 5]);
+        expect(getEaster(2038)).toEqual([4, 25]);
+    });
+
+    it('should know Hungarian fixed and movable holidays', () => {
+        const holidays = getHolidayCalendar('hu').holidays(2026);
+        expect(holidays).toEqual(expect.arrayContaining([
+            '2026-01-01', '2026-03-15', '2026-04-03', '2026-04-06', '2026-05-25', '2026-10-23', '2026-12-26'
+        ]));
+        expect(getHolidayCalendar('hu').holidays(2016)).not.toContain('2016-03-25');
+        expect(isWorkingDay(at('2026-04-03 10:00'), options)).toBe(false);
+        expect(isWorkingDay(at('2026-04-07 10:00'), options)).toBe(true);
+        expect(isWorkingDay(at('2026-10-24 10:00'), options)).toBe(false);
+    });
+
+    it('should add working days across year boundaries', () => {
+        expect(show(addWorkingDays(at('2025-12-23 09:30'), 5, options))).toEqual('2026-01-02 09:30');
+        expect(show(addWorkingDays(at('2026-01-02 09:30'), -5, options))).toEqual('2025-12-23 09:30');
+        expect(show(addWorkingDays(at('2025-12-27 09:30'), 1, options))).toEqual('2025-12-29 09:30');
+        expect(addWorkingDays(at('2025-12-27 09:30'), 0, options)).toEqual(at('2025-12-27 09:30'));
+    });
+
+    it('should handle leap years', () => {
+        expect(show(addWorkingDays(at('2024-02-28 12:00'), 1, options))).toEqual('2024-02-29 12:00');
+        expect(show(addWorkingDays(at('2023-02-28 12:00'), 1, options))).toEqual('2023-03-01 12:00');
+        expect(workingDaysBetween(at('2024-02-01 00:00'), at('2024-03-01 00:00'), options)).toEqual(21);
+        expect(workingDaysBetween(at('2023-02-01 00:00'), at('2023-03-01 00:00'), options)).toEqual(20);
+    });
+
+    it('should count working days between dates', () => {
+        const start = at('2025-12-20 08:00');
+        [0, 1, 5, 12, 40].forEach((days) => {
+            expect(workingDaysBetween(start, addWorkingDays(start, days, options), options)).toEqual(days);
+        });
+        expect(workingDaysBetween(at('2026-01-09 08:00'), at('2025-12-31 08:00'), options)).toEqual(-6);
+    });
+
+    it('should apply swapped working days supplied as data', () => {
+        const calendar = {
+            ...getHolidayCalendar('hu'),
+            workdays: ['2026-01-10'],
+            restDays: ['2026-01-02']
+        };
+        expect(isWorkingDay(at('2026-01-02 10:00'), { ...options, calendar })).toBe(false);
+        expect(isWorkingDay(at('2026-01-10 10:00'), { ...options, calendar })).toBe(true);
+        expect(show(addWorkingDays(at('2025-12-31 10:00'), 2, { ...options, calendar }))).toEqual('2026-01-06 10:00');
+        expect(() => isWorkingDay(0, { calendar: 'xx' })).toThrow('Unknown holiday calendar: xx');
+    });
+
+    it('should reject calendars without working days', () => {
+        const calendar = { weekend: [0, 1, 2, 3, 4, 5, 6], holidays: () => [] };
+        expect(() => addWorkingDays(at('2026-01-05 10:00'), 1, { ...options, calendar })).toThrow('No working day found within a year');
+        expect(() => addWorkingDays(at('2026-01-05 10:00'), -1, { ...options, calendar })).toThrow('No working day found within a year');
+        // egyetlen áthelyezett munkanap elég
+        expect(show(addWorkingDays(at('2026-01-05 10:00'), 1, { ...options, calendar: { ...calendar, workdays: ['2026-06-01'] } })))
+            .toEqual('2026-06-01 10:00');
+    });
+});
@@ -0,0 +1,602 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    ResizeHandle, getDimensions, getMousePosition, makeDraggable, makeResizable, makeRotatable, observeDimensions, observeVisibility,
+    protect, rightClickProtection, selectProtection
+} from '../src/element';
+
+describe('pointer behaviors', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+        document.body.innerHTML = '';
+    });
+
+    const pointer = (type: string, x: number, y: number, init: PointerEventInit = {}) => new PointerEvent(type, {
+        bubbles: true, cancelable: true, clientX: x, clientY: y, pointerId: 1, pointerType: 'mouse', button: 0, ...init
+    });
+    // happy-dom nem számol elrendezést, ezért az offset méretek és a képernyőtéglalap rögzítettek
+    const createBox = (rect = { x: 10, y: 20, w: 100, h: 50 }) => {
+        const element = document.createElement('div');
+        element.style.position = 'absolute';
+        element.style.width = `${rect.w - 2}px`;
+        element.style.height = `${rect.h - 2}px`;
+        element.style.marginLeft = '3px';
+        Object.defineProperties(element, {
+            offsetLeft: { value: rect.x },
+            offsetTop: { value: rect.y },
+            offsetWidth: { value: rect.w },
+            offsetHeight: { value: rect.h }
+        });
+        vi.spyOn(element, 'getBoundingClientRect').mockReturnValue(new DOMRect(rect.x, rect.y, rect.w, rect.h));
+        document.body.appendChild(element);
+        return element;
+    };
+    const drag = (target: HTMLElement, from: [number, number], ...moves: [number, number][]) => {
+        target.dispatchEvent(pointer('pointerdown', ...from));
+        moves.forEach(move => target.dispatchEvent(pointer('pointermove', ...move)));
+        target.dispatchEvent(pointer('pointerup', ...(moves[moves.length - 1] ?? from)));
+    };
+    const record = <T>(log: [string, T][]) => ({
+        onStart: (value: T) => log.push(['start', value]),
+        onMove: (value: T) => log.push(['move', value]),
+        onEnd: (value: T) => log.push(['end', value])
+    });
+
+    it('should drag elements and call the callbacks in order', () => {
+        const element = createBox();
+        const log: [string, unknown][] = [];
+        makeDraggable(element, record(log));
+        drag(element, [50, 50], [60, 45], [65, 57]);
+        expect(log).toEqual([
+            ['start', { x: 10, y: 20, w: 100, h: 50 }],
+            ['move', { x: 20, y: 15, w: 100, h: 50 }],
+            ['move', { x: 25, y: 27, w: 100, h: 50 }],
+            ['end', { x: 25, y: 27, w: 100, h: 50 }]
+        ]);
+        // a margó nélküli pozíció
+        expect(element.style.left).toEqual('22px');
+        expect(element.style.top).toEqual('27px');
+
+        element.dispatchEvent(pointer('pointermove', 100, 100));
+        expect(log.length).toEqual(4);
+    });
+
+    it('should lock axis, snap to grid and keep inside the containment', () => {
+        const moves: unknown[] = [];
+        const onMove = (rect: unknown) => moves.push(rect);
+        const disposers = [
+            makeDraggable(createBox(), { axis: 'x', onMove }),
+            makeDraggable(createBox(), { axis: 'y', onMove }),
+            makeDraggable(createBox(), { grid: 10, onMove }),
+            makeDraggable(createBox(), { containment: { x: 0, y: 0, w: 200, h: 100 }, onMove }),
+            makeDraggable(createBox(), { containment: { x: 0, y: 0, w: 200, h: 100 }, grid: 10, onMove })
+        ];
+        [...document.body.children].forEach((element, i) => {
+            drag(element as HTMLElement, [0, 0], i < 3 ? [13, 7] : i === 3 ? [500, -500] : [-500, 500]);
+        });
+        expect(moves).toEqual([
+            { x: 23, y: 20, w: 100, h: 50 },
+            { x: 10, y: 27, w: 100, h: 50 },
+            { x: 20, y: 30, w: 100, h: 50 },
+            { x: 100, y: 0, w: 100, h: 50 },
+            { x: 0, y: 50, w: 100, h: 50 }
+        ]);
+        disposers.forEach(dispose => dispose());
+    });
+
+    it('should start dragging only from the handles with the primary button', () => {
+        const element = createBox();
+        const handle = document.createElement('b');
+        element.appendChild(handle);
+        const onStart = vi.fn();
+        makeDraggable(element, { handles: [handle], onStart });
+        drag(element, [0, 0], [10, 10]);
+        expect(onStart).not.toHaveBeenCalled();
+        handle.dispatchEvent(pointer('pointerdown', 0, 0, { button: 2 }));
+        expect(onStart).not.toHaveBeenCalled();
+        drag(handle, [0, 0], [10, 10]);
+        expect(element.style.left).toEqual('17px');
+        // érintésnél nincs egérgomb
+        handle.dispatchEvent(pointer('pointerdown', 0, 0, { pointerType: 'touch', pointerId: 2, button: -1 }));
+        expect(onStart).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remove every listener and restore touchAction on dispose', () => {
+        const element = createBox();
+        element.style.touchAction = 'pan-y';
+        const removed = vi.spyOn(element, 'removeEventListener');
+        const onMove = vi.fn();
+        const dispose = makeDraggable(element, { onMove });
+        expect(element.style.touchAction).toEqual('none');
+
+        element.dispatchEvent(pointer('pointerdown', 0, 0));
+        dispose();
+        expect(removed.mock.calls.map(([type]) => type).sort())
+            .toEqual(['lostpointercapture', 'pointercancel', 'pointerdown', 'pointermove', 'pointerup']);
+        expect(element.style.touchAction).toEqual('pan-y');
+        drag(element, [0, 0], [10, 10]);
+        expect(onMove).not.toHaveBeenCalled();
+
+        const resizable = createBox();
+        const rotatable = createBox();
+        const disposers = [makeResizable(resizable, { onMove }), makeRotatable(rotatable, { onMove })];
+        disposers.forEach(dispose => dispose());
+        drag(resizable, [108, 68], [120, 80]);
+        drag(rotatable, [0, 0], [10, 10]);
+        expect(onMove).not.toHaveBeenCalled();
+        expect(resizable.style.touchAction).toEqual('');
+    });
+
+    it('should resize only the edges of the handle direction', () => {
+        const directions: ResizeHandle[] = ['n', 'ne', 'e', 'se', 's', 'sw', 'w', 'nw'];
+        directions.forEach((direction) => {
+            const element = createBox();
+            const handle = document.createElement('b');
+            element.appendChild(handle);
+            const log: [string, unknown][] = [];
+            makeResizable(element, { handles: { [direction]: handle }, ...record(log) });
+            drag(handle, [0, 0], [10, 5]);
+            const [dx, dy] = [10, 5];
+            const expected = {
+                x: direction.includes('w') ? 10 + dx : 10,
+                y: direction.includes('n') ? 20 + dy : 20,
+                w: 100 + (direction.includes('e') ? dx : direction.includes('w') ? -dx : 0),
+                h: 50 + (direction.includes('s') ? dy : direction.includes('n') ? -dy : 0)
+            };
+            expect(log.map(([name]) => name)).toEqual(['start', 'move', 'end']);
+            expect(log[2][1]).toEqual(expected);
+            expect(element.style.width).toEqual(`${expected.w - 2}px`);
+            expect(element.style.height).toEqual(`${expected.h - 2}px`);
+            expect(element.style.left).toEqual(`${expected.x - 3}px`);
+        });
+    });
+
+    it('should clamp the size between the minimum and the maximum', () => {
+        const options = { minSize: { w: 60, h: 40 }, maxSize: { w: 150, h: 80 } };
+        const se = document.createElement('b');
+        const nw = document.createElement('b');
+        const element = createBox();
+        element.append(se, nw);
+        const onMove = vi.fn();
+        makeResizable(element, { handles: { se, nw }, onMove, ...options });
+        drag(se, [0, 0], [-100, -100], [100, 100]);
+        drag(nw, [0, 0], [100, 100], [-100, -100]);
+        expect(onMove.mock.calls.map(([rect]) => rect)).toEqual([
+            { x: 10, y: 20, w: 60, h: 40 },
+            { x: 10, y: 20, w: 150, h: 80 },
+            { x: 50, y: 30, w: 60, h: 40 },
+            { x: -40, y: -10, w: 150, h: 80 }
+        ]);
+    });
+
+    it('should resize from the edges with grid, containment and axis lock', () => {
+        const element = createBox();
+        const onMove = vi.fn();
+        const onStart = vi.fn();
+        const dispose = makeResizable(element, { grid: 10, containment: { x: 0, y: 0, w: 150, h: 100 }, onStart, onMove });
+        // a jobb szélen az alapértelmezett 8 pixeles sávban
+        drag(element, [105, 40], [118, 40], [300, 40]);
+        // a belsejében nem indul átméretezés
+        drag(element, [60, 40], [70, 50]);
+        // a bal felső sarokban
+        drag(element, [12, 22], [-13, 4]);
+        expect(onStart).toHaveBeenCalledTimes(2);
+        expect(onMove.mock.calls.map(([rect]) => rect)).toEqual([
+            { x: 10, y: 20, w: 110, h: 50 },
+            { x: 10, y: 20, w: 140, h: 50 },
+            { x: 0, y: 0, w: 110, h: 70 }
+        ]);
+        dispose();
+
+        const locked = createBox();
+        makeResizable(locked, { axis: 'x', onMove, onStart });
+        drag(locked, [60, 68], [60, 80]);
+        drag(locked, [12, 68], [0, 80]);
+        expect(onStart).toHaveBeenCalledTimes(3);
+        expect(onMove).toHaveBeenLastCalledWith({ x: -2, y: 20, w: 112, h: 50 }, expect.any(PointerEvent));
+    });
+
+    it('should rotate elements around their center', () => {
+        const element = createBox({ x: 0, y: 0, w: 100, h: 100 });
+        element.style.rotate = '90deg';
+        const log: [string, number][] = [];
+        makeRotatable(element, record(log));
+        drag(element, [100, 50], [50, 100]);
+        expect(log.map(([name]) => name)).toEqual(['start', 'move', 'end']);
+        expect(log[0][1]).toBeCloseTo(Math.PI / 2);
+        expect(log[2][1]).toBeCloseTo(Math.PI);
+        expect(element.style.rotate).toEqual(`${log[2][1]}rad`);
+
+        const snapped = createBox({ x: 0, y: 0, w: 100, h: 100 });
+        const onEnd = vi.fn();
+        makeRotatable(snapped, { step: Math.PI / 4, onEnd });
+        drag(snapped, [100, 50], [100, 90]);
+        expect(onEnd.mock.calls[0][0]).toBeCloseTo(Math.PI / 4);
+    });
+});
+
+describe('getMousePosition and getDimensions', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+        document.body.innerHTML = '';
+    });
+
+    interface Layout {
+        parent?: HTMLElement | null;
+        left?: number;
+        top?: number;
+        width?: number;
+        height?: number;
+        border?: [number, number];
+        scroll?: [number, number];
+        style?: Partial<CSSStyleDeclaration>;
+    }
+    // happy-dom nem számol elrendezést, ezért az offset, client és scroll értékek rögzítettek
+    const createLayout = ({
+        parent, left = 0, top = 0, width = 0, height = 0, border = [0, 0], scroll = [0, 0], style = {}
+    }: Layout = {}) => {
+        const element = document.createElement('div');
+        Object.assign(element.style, style);
+        Object.defineProperties(element, {
+            offsetParent: { value: parent === undefined ? document.body : parent },
+            offsetLeft: { value: left },
+            offsetTop: { value: top },
+            offsetWidth: { value: width },
+            offsetHeight: { value: height },
+            clientLeft: { value: border[0] },
+            clientTop: { value: border[1] },
+            scrollLeft: { value: scroll[0] },
+            scrollTop: { value: scroll[1] }
+        });
+        (parent ?? document.body).appendChild(element);
+        return element;
+    };
+    const mouse = (clientX: number, clientY: number, pageX = clientX, pageY = clientY) => {
+        const event = new MouseEvent('mousemove', { clientX, clientY });
+        Object.defineProperties(event, { pageX: { value: pageX }, pageY: { value: pageY } });
+        return event;
+    };
+    const expectQuad = (quad: { x: number, y: number }[], ...coords: [number, number][]) => {
+        quad.forEach((corner, i) => {
+            expect(corner.x).toBeCloseTo(coords[i][0]);
+            expect(corner.y).toBeCloseTo(coords[i][1]);
+        });
+    };
+    const createNested = () => {
+        const outer = createLayout({ left: 100, top: 50, width: 300, height: 200, border: [5, 5] });
+        const scroller = createLayout({ parent: outer, left: 10, top: 20, width: 200, height: 100, border: [2, 3], scroll: [30, 40] });
+        const inner = createLayout({ parent: scroller, left: 7, top: 8, width: 20, height: 10 });
+        return { outer, scroller, inner };
+    };
+
+    it('should subtract the top offsets from the vertical position', () => {
+        const outer = createLayout({ parent: null, left: 100, top: 200 });
+        const inner = createLayout({ parent: outer, left: 10, top: 20 });
+        expect(getMousePosition(mouse(0, 0, 150, 300), inner)).toEqual({ x: 40, y: 80 });
+        expect(getMousePosition(mouse(0, 0, 150, 300), null)).toEqual({ x: 150, y: 300 });
+    });
+
+    it('should follow nested offsetParents with borders and scroll', () => {
+        const { outer, scroller, inner } = createNested();
+        expect(getMousePosition(mouse(100, 100), null, { relativeTo: scroller })).toEqual({ x: 13, y: 62 });
+        // a görgetett tartalomban az offsetLeft/offsetTop szerinti helyen
+        expect(getMousePosition(mouse(94, 46), null, { relativeTo: scroller })).toEqual({ x: 7, y: 8 });
+
+        const options = { element: inner, type: 'border', calculateScroll: false, calculateRotate: false } as const;
+        const dimensions = getDimensions({ ...options, relativeTo: outer });
+        expect(dimensions).toMatchObject({ x: -11, y: -9, w: 20, h: 10 });
+        expectQuad(dimensions.quad, [-11, -9], [9, -9], [9, 1], [-11, 1]);
+
+        // a document koordinátái nem függnek az oldal görgetésétől
+        vi.spyOn(window, 'scrollX', 'get').mockReturnValue(15);
+        vi.spyOn(window, 'scrollY', 'get').mockReturnValue(25);
+        vi.spyOn(window, 'pageXOffset', 'get').mockReturnValue(15);
+        vi.spyOn(window, 'pageYOffset', 'get').mockReturnValue(25);
+        expect(getMousePosition(mouse(79, 21), null, { relativeTo: document })).toEqual({ x: 94, y: 46 });
+        const page = getDimensions({ ...options, relativeTo: document });
+        expect(page).toMatchObject({ x: 94, y: 46, w: 20, h: 10 });
+        // relativeTo nélkül az offsetParent tartalmához képest
+        const legacy = getDimensions({ ...options, calculateScroll: true });
+        expect(legacy).toMatchObject({ x: 22, y: 33, w: 20, h: 10 });
+        expectQuad(legacy.quad, [22, 33], [42, 33], [42, 43], [22, 43]);
+    });
+
+    it('should handle rotated frames', () => {
+        const container = createLayout({
+            left: 100, top: 100, width: 200, height: 200, style: { transform: 'rotate(90deg)', transformOrigin: '0px 0px' }
+        });
+        const child = createLayout({
+            parent: container, left: 10, top: 20, width: 30, height: 40, style: { rotate: '90deg', transformOrigin: '15px 20px' }
+        });
+        const point = getMousePosition(mouse(80, 110), null, { relativeTo: container });
+        expect(point.x).toBeCloseTo(10);
+        expect(point.y).toBeCloseTo(20);
+
+        const options = { element: child, type: 'border', calculateScroll: false, relativeTo: container } as const;
+        const local = getDimensions({ ...options, calculateRotate: false });
+        expect(local).toMatchObject({ x: 10, y: 20, w: 30, h: 40 });
+        expectQuad(local.quad, [45, 25], [45, 55], [5, 55], [5, 25]);
+        const rotated = getDimensions({ ...options, calculateRotate: true });
+        expect(rotated.x).toBeCloseTo(5);
+        expect(rotated.y).toBeCloseTo(25);
+        expect(rotated.w).toBeCloseTo(40);
+        expect(rotated.h).toBeCloseTo(30);
+
+        const page = getDimensions({ ...options, relativeTo: document, calculateRotate: false });
+        expectQuad(page.quad, [75, 145], [45, 145], [45, 105], [75, 105]);
+        expect(page.x).toBeCloseTo(40);
+        expect(page.y).toBeCloseTo(110);
+        expect(page.w).toBeCloseTo(40);
+        expect(page.h).toBeCloseTo(30);
+    });
+
+    it('should measure the box model from the border widths', () => {
+        const element = createLayout({
+            left: 50, top: 60, width: 100, height: 80,
+            style: {
+                borderLeftWidth: '2px', borderTopWidth: '3px', borderRightWidth: '4px', borderBottomWidth: '5px',
+                paddingLeft: '6px', paddingTop: '7px', paddingRight: '8px', paddingBottom: '9px',
+                marginLeft: '10px', marginTop: '11px', marginRight: '12px', marginBottom: '13px'
+            }
+        });
+        const measure = (type: 'content' | 'padding' | 'border' | 'margin') => {
+            return getDimensions({ element, type, calculateScroll: false, calculateRotate: false });
+        };
+        expect(measure('border')).toMatchObject({ x: 50, y: 60, w: 100, h: 80 });
+        expect(measure('padding')).toMatchObject({ x: 52, y: 63, w: 94, h: 72 });
+        expect(measure('content')).toMatchObject({ x: 58, y: 70, w: 80, h: 56 });
+        expect(measure('margin')).toMatchObject({ x: 40, y: 49, w: 122, h: 104 });
+        expectQuad(measure('padding').quad, [52, 63], [146, 63], [146, 135], [52, 135]);
+    });
+});
+
+describe('observeDimensions and observeVisibility', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.unstubAllGlobals();
+        document.body.innerHTML = '';
+    });
+
+    // a megfigyelők csak a callback-jüket és a hívásokat jegyzik meg, a tesztek hívják meg őket
+    const stubObserver = (name: string) => {
+        type Instance = { callback: (...args: any[]) => void, observe: ReturnType<typeof vi.fn>, disconnect: ReturnType<typeof vi.fn> };
+        const instances: Instance[] = [];
+        vi.stubGlobal(name, vi.fn(function(callback: (...args: any[]) => void, options?: unknown) {
+            const instance = { callback, options, observe: vi.fn(), disconnect: vi.fn() };
+            instances.push(instance);
+            return instance;
+        }));
+        return instances;
+    };
+    const stubAnimationFrame = () => {
+        const frames = new Map<number, FrameRequestCallback>();
+        let id = 0;
+        vi.spyOn(window, 'requestAnimationFrame').mockImplementation((callback) => {
+            frames.set(++id, callback);
+            return id;
+        });
+        vi.spyOn(window, 'cancelAnimationFrame').mockImplementation(handle => frames.delete(handle));
+        return {
+            frames,
+            flush: () => {
+                const callbacks = [...frames.values()];
+                frames.clear();
+                callbacks.forEach(callback => callback(0));
+            }
+        };
+    };
+    const createElement = () => {
+        const element = document.createElement('div');
+        Object.defineProperties(element, {
+            offsetParent: { value: document.body },
+            offsetLeft: { value: 10, configurable: true },
+            offsetTop: { value: 20 },
+            offsetWidth: { value: 100 },
+            offsetHeight: { value: 50 }
+        });
+        document.body.appendChild(element);
+        return element;
+    };
+
+    it('should batch changes per frame and skip unchanged dimensions', () => {
+        const resizeObservers = stubObserver('ResizeObserver');
+        const mutationObservers = stubObserver('MutationObserver');
+        const { frames, flush } = stubAnimationFrame();
+        const element = createElement();
+        const callback = vi.fn();
+        observeDimensions(element, 'border', callback);
+        expect(resizeObservers[0].observe).toHaveBeenCalledWith(element);
+        expect(mutationObservers[0].observe).toHaveBeenCalledWith(document.documentElement, {
+            attributes: true, attributeFilter: ['style', 'class'], childList: true, subtree: true
+        });
+        expect(callback).not.toHaveBeenCalled();
+        expect(frames.size).toEqual(1);
+        flush();
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(callback.mock.calls[0][0]).toMatchObject({ x: 10, y: 20, w: 100, h: 50 });
+
+        resizeObservers[0].callback([]);
+        mutationObservers[0].callback([]);
+        window.dispatchEvent(new Event('resize'));
+        element.dispatchEvent(new Event('scroll'));
+        expect(frames.size).toEqual(1);
+        flush();
+        expect(callback).toHaveBeenCalledTimes(1);
+        // a nem buborékozó görgetés a capture fázisban érkezik
+        document.body.appendChild(document.createElement('section')).dispatchEvent(new Event('scroll'));
+        expect(frames.size).toEqual(1);
+        flush();
+
+        Object.defineProperty(element, 'offsetLeft', { value: 30 });
+        resizeObservers[0].callback([]);
+        resizeObservers[0].callback([]);
+        flush();
+        expect(callback).toHaveBeenCalledTimes(2);
+        expect(callback.mock.calls[1][0]).toMatchObject({ x: 30, y: 20, w: 100, h: 50 });
+        expect(callback.mock.calls[1][0].quad[0]).toEqual({ x: 30, y: 20 });
+    });
+
+    it('should disconnect the observers and remove the listeners on unsubscribe', () => {
+        const resizeObservers = stubObserver('ResizeObserver');
+        const mutationObservers = stubObserver('MutationObserver');
+        const { frames, flush } = stubAnimationFrame();
+        const added = vi.spyOn(window, 'addEventListener');
+        const removed = vi.spyOn(window, 'removeEventListener');
+        const callback = vi.fn();
+        const unsubscribe = observeDimensions(createElement(), 'border', callback);
+        expect(added).toHaveBeenCalledWith('scroll', expect.any(Function), { capture: true, passive: true });
+
+        unsubscribe();
+        expect(frames.size).toEqual(0);
+        expect(resizeObservers[0].disconnect).toHaveBeenCalled();
+        expect(mutationObservers[0].disconnect).toHaveBeenCalled();
+        expect(removed).toHaveBeenCalledWith('scroll', added.mock.calls[0][1], { capture: true });
+        expect(removed).toHaveBeenCalledWith('resize', added.mock.calls[1][1]);
+        window.dispatchEvent(new Event('scroll'));
+        window.dispatchEvent(new Event('resize'));
+        flush();
+        expect(frames.size).toEqual(0);
+        expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should report the visible part of the element', () => {
+        const intersectionObservers = stubObserver('IntersectionObserver');
+        const element = createElement();
+        const root = document.createElement('div');
+        const callback = vi.fn();
+        const unsubscribe = observeVisibility(element, [0, 0.5], callback, { root, rootMargin: '10px' });
+        expect(window.IntersectionObserver).toHaveBeenCalledWith(expect.any(Function), { root, rootMargin: '10px', threshold: [0, 0.5] });
+        expect(intersectionObservers[0].observe).toHaveBeenCalledWith(element);
+
+        const entry = { isIntersecting: true, boundingClientRect: new DOMRect(-10, 20, 100, 50), intersectionRatio: 0.4 };
+        intersectionObservers[0].callback([
+            { ...entry, intersectionRatio: 0.1 },
+            { ...entry, rootBounds: new DOMRect(0, 0, 80, 60) }
+        ]);
+        expect(callback).toHaveBeenLastCalledWith({ rect: { x: 0, y: 20, w: 80, h: 40 }, ratio: 0.4 });
+        vi.spyOn(window, 'innerWidth', 'get').mockReturnValue(50);
+        vi.spyOn(window, 'innerHeight', 'get').mockReturnValue(100);
+        intersectionObservers[0].callback([{ ...entry, rootBounds: null }]);
+        expect(callback).toHaveBeenLastCalledWith({ rect: { x: 0, y: 20, w: 50, h: 50 }, ratio: 0.4 });
+        intersectionObservers[0].callback([{ ...entry, isIntersecting: false, intersectionRatio: 0 }]);
+        expect(callback).toHaveBeenLastCalledWith({ rect: { x: 0, y: 0, w: 0, h: 0 }, ratio: 0 });
+
+        unsubscribe();
+        expect(intersectionObservers[0].disconnect).toHaveBeenCalled();
+    });
+});
+
+const dispatch = (target: EventTarget, event: Event): boolean => {
+    target.dispatchEvent(event);
+    return event.defaultPrevented;
+};
+const contextMenu = () => new MouseEvent('contextmenu', { bubbles: true, cancelable: true, button: 2 });
+const selectStart = () => new Event('selectstart', { bubbles: true, cancelable: true });
+const saveShortcut = () => new KeyboardEvent('keydown', { bubbles: true, cancelable: true, key: 's', ctrlKey: true });
+
+describe('protect', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+        document.body.innerHTML = '';
+    });
+
+    const createTree = () => {
+        const element = document.createElement('div');
+        const child = document.createElement('span');
+        element.appendChild(child);
+        document.body.appendChild(element);
+        return { element, child };
+    };
+
+    it('should remove every listener on release', () => {
+        const { element, child } = createTree();
+        const removed = vi.spyOn(document, 'removeEventListener');
+        const protection = protect(element);
+        expect(dispatch(child, contextMenu())).toBe(true);
+        expect(dispatch(child, selectStart())).toBe(true);
+        expect(dispatch(child, saveShortcut())).toBe(true);
+        protection.release();
+        expect(removed).toHaveBeenCalledWith('keydown', expect.any(Function), true);
+        expect(dispatch(child, contextMenu())).toBe(false);
+        expect(dispatch(child, selectStart())).toBe(false);
+        expect(dispatch(document.body, saveShortcut())).toBe(false);
+    });
+
+    it('should restore userSelect and unselectable on release', () => {
+        const { element } = createTree();
+        element.style.userSelect = 'text';
+        protect(element, { print: false }).release();
+        expect(element.style.userSelect).toEqual('text');
+        expect(element.hasAttribute('unselectable')).toBe(false);
+
+        element.setAttribute('unselectable', 'off');
+        const protection = protect(element);
+        expect(element.style.userSelect).toEqual('none');
+        expect(element.getAttribute('unselectable')).toEqual('on');
+        protection.release();
+        expect(element.getAttribute('unselectable')).toEqual('off');
+    });
+
+    it('should except descendants from the protection', () => {
+        const { element, child } = createTree();
+        const protection = protect(element);
+        expect(() => protection.except(element)).toThrow('Exception must be a descendant of the protected element');
+        expect(() => protection.except(document.body)).toThrow('Exception must be a descendant of the protected element');
+
+        const restore = protection.except(child);
+        expect(child.style.userSelect).toEqual('text');
+        expect(child.hasAttribute('data-print-allowed')).toBe(true);
+        expect(dispatch(child, contextMenu())).toBe(false);
+        expect(dispatch(child, selectStart())).toBe(false);
+        expect(dispatch(element, selectStart())).toBe(true);
+
+        restore();
+        expect(child.style.userSelect).toEqual('');
+        expect(child.hasAttribute('data-print-allowed')).toBe(false);
+        expect(dispatch(child, selectStart())).toBe(true);
+        protection.release();
+    });
+
+    it('should remove the print style with the last print protection', () => {
+        const first = createTree().element;
+        const second = createTree().element;
+        const protections = [protect(first), protect(second), protect(first, { print: false })];
+        expect(document.querySelectorAll('#print-protection-style').length).toEqual(1);
+        expect(first.hasAttribute('data-print-protected')).toBe(true);
+
+        protections[0].release();
+        protections[0].release();
+        expect(first.hasAttribute('data-print-protected')).toBe(false);
+        expect(document.getElementById('print-protection-style')).not.toBeNull();
+        protections[2].release();
+        expect(document.getElementById('print-protection-style')).not.toBeNull();
+        protections[1].release();
+        expect(document.getElementById('print-protection-style')).toBeNull();
+
+        const protection = protect(second);
+        expect(document.head.querySelector('#print-protection-style')).not.toBeNull();
+        protection.release();
+    });
+
+    it('should keep the single protection helpers working', () => {
+        const { element, child } = createTree();
+        const rightClick = rightClickProtection(element);
+        expect(dispatch(child, contextMenu())).toBe(true);
+        expect(dispatch(child, new MouseEvent('mouseup', { bubbles: true, cancelable: true, button: 2 }))).toBe(true);
+        expect(dispatch(child, new MouseEvent('mouseup', { bubbles: true, cancelable: true, button: 0 }))).toBe(false);
+        expect(dispatch(child, selectStart())).toBe(false);
+        expect(element.style.userSelect).toEqual('');
+        expect(document.getElementById('print-protection-style')).toBeNull();
+        rightClick.release();
+        expect(dispatch(child, contextMenu())).toBe(false);
+
+        const select = selectProtection(element);
+        expect(dispatch(child, selectStart())).toBe(true);
+        expect(dispatch(child, contextMenu())).toBe(false);
+        expect(dispatch(child, saveShortcut())).toBe(false);
+        expect(element.style.userSelect).toEqual('none');
+        select.release();
+        expect(element.style.userSelect).toEqual('');
+        expect(dispatch(child, selectStart())).toBe(false);
+    });
+});
@@ -0,0 +1,311 @@
+import { describe, expect, it } from 'vitest';
+import {
+    AngleConvention, Direction, addCoords3D, addVectors, clipLineToRect, cross, cross3D, distance, distance3D, dot,
+    dot3D, getAngleBetween, getCircleBounds, getCircleIntersectionPoints, getCircleLineIntersectionPoints,
+    getCircleTangentPoints, getClosestPointOnLine, getConvexHull, getCoord, getEllipseBounds, getLineAngle,
+    getLineLength, getPolygonArea, getPolygonBounds, getPolygonCentroid, getPolygonPerimeter, getRect3DIntersection,
+    getRectTouchings, getSegmentIntersection, getVector, intersects, isCircleIntersection, isCircleLineIntersection,
+    isCircleRectIntersection, isPointInsideCircle, isPointInsideEllipse, isPointInsidePolygon, isPointInsideRect3D,
+    isRect3DInside, isRect3DIntersection, length3D, lerpCoords, normalize, normalize3D, projectCoord, reflectCoord,
+    rotateCoord, scaleCoord, scaleCoord3D, simplifyPolygon, subtractCoords, subtractCoords3D,
+    subtractRect
+} from '../src/geometry';
+
+describe('polygon', () => {
+    const square = [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 4 }, { x: 0, y: 4 }];
+    // pentagram: a közepe evenodd szerint lyuk, nonzero szerint kitöltött
+    const star = [{ x: 0, y: 3 }, { x: 10, y: 3 }, { x: 2, y: 10 }, { x: 5, y: 0 }, { x: 8, y: 10 }];
+
+    it('should test point containment with both fill rules', () => {
+        expect(isPointInsidePolygon({ x: 2, y: 2 }, square)).toBe(true);
+        expect(isPointInsidePolygon({ x: 5, y: 2 }, square)).toBe(false);
+        expect(isPointInsidePolygon({ x: 4, y: 2 }, square)).toBe(false);
+        expect(isPointInsidePolygon({ x: 0, y: 0 }, square)).toBe(false);
+        expect(isPointInsidePolygon({ x: 5, y: 5 }, star, 'evenodd')).toBe(false);
+        expect(isPointInsidePolygon({ x: 5, y: 5 }, star, 'nonzero')).toBe(true);
+        expect(isPointInsidePolygon({ x: 5, y: 1 }, star, 'evenodd')).toBe(true);
+        expect(isPointInsidePolygon({ x: 1, y: 1 }, star, 'nonzero')).toBe(false);
+    });
+
+    it('should calculate signed area, centroid, perimeter and bounds', () => {
+        expect(getPolygonArea(square)).toEqual(16);
+        expect(getPolygonArea([...square].reverse())).toEqual(-16);
+        const lShape = [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 2, y: 1 }, { x: 1, y: 1 }, { x: 1, y: 2 }, { x: 0, y: 2 }];
+        expect(getPolygonArea(lShape)).toEqual(3);
+        const centroid = getPolygonCentroid(lShape);
+        expect(centroid.x).toBeCloseTo(5 / 6);
+        expect(centroid.y).toBeCloseTo(5 / 6);
+        expect(getPolygonPerimeter(square)).toEqual(16);
+        expect(getPolygonBounds(star)).toEqual({ x: 0, y: 0, w: 10, h: 10 });
+    });
+
+    it('should handle collinear points', () => {
+        const line = [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 3, y: 3 }];
+        expect(getPolygonArea(line)).toEqual(0);
+        expect(getPolygonCentroid(line)).toEqual({ x: 4 / 3, y: 4 / 3 });
+        expect(isPointInsidePolygon({ x: 2, y: 2 }, line)).toBe(false);
+        expect(getConvexHull(line)).toEqual([{ x: 0, y: 0 }, { x: 3, y: 3 }]);
+    });
+
+    it('should build the convex hull without inner and collinear points', () => {
+        const points = [...square, { x: 2, y: 0 }, { x: 2, y: 2 }, { x: 1, y: 3 }, { x: 4, y: 4 }];
+        expect(getConvexHull(points)).toEqual(square);
+        expect(getConvexHull(star)).toEqual([{ x: 0, y: 3 }, { x: 5, y: 0 }, { x: 10, y: 3 }, { x: 8, y: 10 }, { x: 2, y: 10 }]);
+        expect(getPolygonArea(getConvexHull(star))).toBeGreaterThan(0);
+    });
+
+    it('should simplify freehand lines', () => {
+        const stroke = [{ x: 0, y: 0 }, { x: 1, y: 0.1 }, { x: 2, y: -0.1 }, { x: 3, y: 5 }, { x: 4, y: 6 }, { x: 5, y: 7 }];
+        expect(simplifyPolygon(stroke, 0.5)).toEqual([{ x: 0, y: 0 }, { x: 2, y: -0.1 }, { x: 3, y: 5 }, { x: 5, y: 7 }]);
+        expect(simplifyPolygon(stroke, 100)).toEqual([{ x: 0, y: 0 }, { x: 5, y: 7 }]);
+        // nulla tűréssel csak az egy egyenesre eső (4,6) pont marad ki
+        expect(simplifyPolygon(stroke, 0)).toHaveLength(stroke.length - 1);
+    });
+});
+
+describe('line segments', () => {
+    it('should intersect crossing, touching and parallel segments', () => {
+        expect(getSegmentIntersection({ x1: 0, y1: 0, x2: 4, y2: 4 }, { x1: 0, y1: 4, x2: 4, y2: 0 })).toEqual({ x: 2, y: 2 });
+        expect(getSegmentIntersection({ x1: 0, y1: 0, x2: 2, y2: 0 }, { x1: 2, y1: 0, x2: 2, y2: 5 })).toEqual({ x: 2, y: 0 });
+        expect(getSegmentIntersection({ x1: 0, y1: 0, x2: 1, y2: 1 }, { x1: 0, y1: 4, x2: 4, y2: 0 })).toBeNull();
+        expect(getSegmentIntersection({ x1: 0, y1: 0, x2: 4, y2: 0 }, { x1: 0, y1: 1, x2: 4, y2: 1 })).toBeNull();
+    });
+
+    it('should return the overlap of collinear segments', () => {
+        expect(getSegmentIntersection({ x1: 0, y1: 0, x2: 4, y2: 4 }, { x1: 6, y1: 6, x2: 2, y2: 2 }))
+            .toEqual({ x1: 2, y1: 2, x2: 4, y2: 4 });
+        expect(getSegmentIntersection({ x1: 0, y1: 0, x2: 2, y2: 0 }, { x1: 2, y1: 0, x2: 3, y2: 0 })).toEqual({ x: 2, y: 0 });
+        expect(getSegmentIntersection({ x1: 0, y1: 0, x2: 1, y2: 0 }, { x1: 2, y1: 0, x2: 3, y2: 0 })).toBeNull();
+        expect(getSegmentIntersection({ x1: 1, y1: 0, x2: 1, y2: 0 }, { x1: 0, y1: 0, x2: 3, y2: 0 })).toEqual({ x: 1, y: 0 });
+    });
+
+    it('should clip segments to a rect', () => {
+        const rect = { x: 0, y: 0, w: 10, h: 10 };
+        expect(clipLineToRect({ x1: -5, y1: 5, x2: 15, y2: 5 }, rect)).toEqual({ x1: 0, y1: 5, x2: 10, y2: 5 });
+        expect(clipLineToRect({ x1: 2, y1: 2, x2: 8, y2: 3 }, rect)).toEqual({ x1: 2, y1: 2, x2: 8, y2: 3 });
+        expect(clipLineToRect({ x1: -5, y1: 5, x2: 5, y2: -5 }, rect)).toEqual({ x1: 0, y1: 0, x2: 0, y2: 0 });
+        expect(clipLineToRect({ x1: -5, y1: 11, x2: 15, y2: 11 }, rect)).toBeNull();
+        expect(clipLineToRect({ x1: 11, y1: -5, x2: 20, y2: 5 }, rect)).toBeNull();
+    });
+
+    it('should find the closest point of a segment', () => {
+        const line = { x1: 0, y1: 0, x2: 10, y2: 0 };
+        expect(getClosestPointOnLine({ x: 4, y: 3 }, line)).toEqual({ point: { x: 4, y: 0 }, distance: 3 });
+        expect(getClosestPointOnLine({ x: 13, y: 4 }, line)).toEqual({ point: { x: 10, y: 0 }, distance: 5 });
+        expect(getClosestPointOnLine({ x: 3, y: 4 }, { x1: 0, y1: 0, x2: 0, y2: 0 }).distance).toEqual(5);
+    });
+
+    it('should measure length and angle like getVector', () => {
+        const line = { x1: 1, y1: 1, x2: 4, y2: 5 };
+        expect(getLineLength(line)).toEqual(5);
+        expect(getLineAngle(line)).toBeCloseTo(getVector({ x: 3, y: 4 }).angle);
+        [[3, 4], [-3, 4], [-3, -4], [3, -4], [5, 0]].forEach(([dx, dy]) => {
+            const coord = getCoord({ length: 5, angle: getLineAngle({ x1: 0, y1: 0, x2: dx, y2: dy }) });
+            expect(coord.x).toBeCloseTo(dx);
+            expect(coord.y).toBeCloseTo(dy);
+        });
+    });
+});
+
+describe('3D', () => {
+    const a = { x: 1, y: 2, z: 3 };
+    const b = { x: 4, y: 5, z: 6 };
+
+    it('should calculate with 3D vectors', () => {
+        expect(addCoords3D(a, b, a)).toEqual({ x: 6, y: 9, z: 12 });
+        expect(subtractCoords3D(b, a)).toEqual({ x: 3, y: 3, z: 3 });
+        expect(scaleCoord3D(a, 2)).toEqual({ x: 2, y: 4, z: 6 });
+        expect(dot3D(a, b)).toEqual(32);
+        expect(cross3D({ x: 1, y: 0, z: 0 }, { x: 0, y: 1, z: 0 })).toEqual({ x: 0, y: 0, z: 1 });
+        expect(dot3D(cross3D(a, b), a)).toEqual(0);
+        expect(normalize3D({ x: 0, y: 0, z: -5 })).toEqual({ x: 0, y: 0, z: -1 });
+        expect(length3D(normalize3D(b))).toBeCloseTo(1);
+        expect(normalize3D({ x: 0, y: 0, z: 0 })).toEqual({ x: 0, y: 0, z: 0 });
+        expect(distance3D(a, b)).toBeCloseTo(Math.sqrt(27));
+    });
+
+    it('should intersect and contain boxes', () => {
+        const box = { x: 0, y: 0, z: 0, w: 10, h: 10, d: 10 };
+        expect(isRect3DIntersection(box, { x: 5, y: 5, z: 10, w: 5, h: 5, d: 5 })).toBe(true);
+        expect(isRect3DIntersection(box, { x: 5, y: 5, z: 11, w: 5, h: 5, d: 5 })).toBe(false);
+        expect(getRect3DIntersection(box, { x: 5, y: -5, z: 8, w: 10, h: 10, d: 10 })).toEqual({ x: 5, y: 0, z: 8, w: 5, h: 5, d: 2 });
+        expect(getRect3DIntersection(box, { x: 5, y: 5, z: 10, w: 5, h: 5, d: 5 })).toEqual({ x: 0, y: 0, z: 0, w: 0, h: 0, d: 0 });
+        expect(isPointInsideRect3D({ x: 5, y: 5, z: 5 }, box)).toBe(true);
+        expect(isPointInsideRect3D({ x: 5, y: 5, z: 10 }, box)).toBe(false);
+        expect(isRect3DInside(box, { x: 0, y: 2, z: 2, w: 10, h: 2, d: 2 })).toBe(true);
+        expect(isRect3DInside(box, { x: 0, y: 2, z: 9, w: 10, h: 2, d: 2 })).toBe(false);
+    });
+});
+
+describe('getRectTouchings', () => {
+    it('should report every touching side', () => {
+        const big = { x: 0, y: 0, w: 100, h: 100 };
+        // a kis téglalap bal és felső oldala is érinti a nagyot
+        const corner = { x: 100, y: 100, w: 10, h: 10 };
+        expect(getRectTouchings(corner, big)).toEqual([
+            { c1: 100, c2: 100, dir: Direction.Left },
+            { c1: 100, c2: 100, dir: Direction.Top }
+        ]);
+        expect(getRectTouchings({ x: 102, y: 20, w: 10, h: 10 }, big, 2)).toEqual([{ c1: 20, c2: 30, dir: Direction.Left }]);
+        expect(getRectTouchings({ x: 0, y: 0, w: 10, h: 100 }, { x: 10, y: 0, w: 10, h: 100 })).toEqual([
+            { c1: 0, c2: 100, dir: Direction.Right }
+        ]);
+        expect(getRectTouchings({ x: 102, y: 200, w: 10, h: 10 }, big, 2)).toEqual([]);
+    });
+});
+
+describe('vectors', () => {
+    // determinisztikus álvéletlen számok (LCG)
+    let seed = 42;
+    const next = () => (seed = (seed * 1664525 + 1013904223) % 4294967296) / 4294967296;
+    const conventions: AngleConvention[] = ['screen-down', 'math'];
+
+    it('should keep the original angles where they were correct', () => {
+        expect(getVector({ x: 0, y: 5 }).angle).toBeCloseTo(Math.PI / 2);
+        expect(getVector({ x: 3, y: 3 }).angle).toBeCloseTo(Math.atan(1) + Math.PI / 2);
+        expect(getVector({ x: -3, y: 3 }).angle).toBeCloseTo(Math.atan(-1) + Math.PI / 2);
+        expect(getVector({ x: 2, y: 0 })).toEqual({ length: 2, angle: Math.PI });
+        expect(getVector({ x: 0, y: 0 })).toEqual({ length: 0, angle: 0 });
+        expect(getVector({ x: 0, y: -1 }, 'math').angle).toBeCloseTo(-Math.PI / 2);
+    });
+
+    it('should invert getVector with getCoord in every quadrant', () => {
+        conventions.forEach((convention) => {
+            const axes = [{ x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 }];
+            const random = Array.from({ length: 200 }, () => ({ x: (next() - 0.5) * 1000, y: (next() - 0.5) * 1000 }));
+            [...axes, ...random].forEach((coord) => {
+                const result = getCoord(getVector(coord, convention), convention);
+                expect(result.x).toBeCloseTo(coord.x, 6);
+                expect(result.y).toBeCloseTo(coord.y, 6);
+            });
+        });
+    });
+
+    it('should add vectors', () => {
+        conventions.forEach((convention) => {
+            const a = getVector({ x: 3, y: -4 }, convention);
+            const b = getVector({ x: -1, y: -2 }, convention);
+            const sum = getCoord(addVectors([a, b], convention), convention);
+            expect(sum.x).toBeCloseTo(2);
+            expect(sum.y).toBeCloseTo(-6);
+        });
+    });
+
+    it('should calculate with coordinates', () => {
+        const a = { x: 3, y: 4 };
+        const b = { x: 1, y: -2 };
+        expect(subtractCoords(a, b)).toEqual({ x: 2, y: 6 });
+        expect(scaleCoord(a, -2)).toEqual({ x: -6, y: -8 });
+        expect(dot(a, b)).toEqual(-5);
+        expect(cross({ x: 1, y: 0 }, { x: 0, y: 1 })).toEqual(1);
+        expect(normalize({ x: 0, y: -7 })).toEqual({ x: 0, y: -1 });
+        expect(normalize({ x: 0, y: 0 })).toEqual({ x: 0, y: 0 });
+        expect(projectCoord(a, { x: 10, y: 0 })).toEqual({ x: 3, y: 0 });
+        expect(reflectCoord({ x: 2, y: 3 }, { x: 0, y: -1 })).toEqual({ x: 2, y: -3 });
+        expect(lerpCoords(a, b, 0.5)).toEqual({ x: 2, y: 1 });
+        expect(getAngleBetween({ x: 1, y: 0 }, { x: 0, y: -1 })).toBeCloseTo(Math.PI / 2);
+        expect(getAngleBetween({ x: 1, y: 1 }, { x: -1, y: -1 })).toBeCloseTo(Math.PI);
+    });
+
+    it('should rotate in the direction of the convention', () => {
+        conventions.forEach((convention) => {
+            for (let i = 0; i < 50; i++) {
+                const coord = { x: (next() - 0.5) * 100, y: (next() - 0.5) * 100 };
+                const angle = (next() - 0.5) * 4;
+                const rotated = getVector(rotateCoord(coord, angle, { x: 0, y: 0 }, convention), convention);
+                const expected = getVector(coord, convention);
+                expect(rotated.length).toBeCloseTo(expected.length);
+                expect(Math.cos(rotated.angle - expected.angle - angle)).toBeCloseTo(1);
+            }
+        });
+        const rotated = rotateCoord({ x: 2, y: 1 }, Math.PI / 2, { x: 1, y: 1 }, 'math');
+        expect(rotated.x).toBeCloseTo(1);
+        expect(rotated.y).toBeCloseTo(2);
+    });
+});
+
+describe('subtractRect', () => {
+    it('should return the remaining parts', () => {
+        const rect = { x: 0, y: 0, w: 10, h: 10 };
+        expect(subtractRect(rect, { x: 2, y: 2, w: 2, h: 2 })).toEqual([
+            { x: 0, y: 0, w: 10, h: 2 },
+            { x: 0, y: 2, w: 2, h: 2 },
+            { x: 4, y: 2, w: 6, h: 2 },
+            { x: 0, y: 4, w: 10, h: 6 }
+        ]);
+        expect(subtractRect(rect, { x: 5, y: -5, w: 10, h: 20 })).toEqual([{ x: 0, y: 0, w: 5, h: 10 }]);
+        expect(subtractRect(rect, { x: 10, y: 0, w: 5, h: 5 })).toEqual([rect]);
+        expect(subtractRect(rect, rect)).toEqual([]);
+    });
+});
+
+describe('circle and ellipse', () => {
+    const circle = { x: 0, y: 0, r: 5 };
+
+    it('should test containment and bounds', () => {
+        expect(isPointInsideCircle({ x: 3, y: 3 }, circle)).toBe(true);
+        expect(isPointInsideCircle({ x: 3, y: 4 }, circle)).toBe(false);
+        expect(getCircleBounds({ x: 10, y: 20, r: 5 })).toEqual({ x: 5, y: 15, w: 10, h: 10 });
+        const ellipse = { x: 10, y: 10, rx: 10, ry: 2, rotation: Math.PI / 2 };
+        expect(isPointInsideEllipse({ x: 10, y: 18 }, ellipse)).toBe(true);
+        expect(isPointInsideEllipse({ x: 18, y: 10 }, ellipse)).toBe(false);
+        const bounds = getEllipseBounds(ellipse);
+        expect(bounds.x).toBeCloseTo(8);
+        expect(bounds.y).toBeCloseTo(0);
+        expect(bounds.w).toBeCloseTo(4);
+        expect(bounds.h).toBeCloseTo(20);
+        expect(getEllipseBounds({ x: 0, y: 0, rx: 3, ry: 3, rotation: 1 }).w).toBeCloseTo(6);
+    });
+
+    it('should intersect circles with circles, rects and segments', () => {
+        expect(isCircleIntersection(circle, { x: 10, y: 0, r: 5 })).toBe(true);
+        expect(isCircleIntersection(circle, { x: 10, y: 1, r: 5 })).toBe(false);
+        expect(getCircleIntersectionPoints(circle, { x: 10, y: 0, r: 5 })).toEqual([{ x: 5, y: 0 }]);
+        const points = getCircleIntersectionPoints(circle, { x: 6, y: 0, r: 5 });
+        expect(points).toHaveLength(2);
+        points.forEach((point) => {
+            expect(point.x).toBeCloseTo(3);
+            expect(Math.abs(point.y)).toBeCloseTo(4);
+        });
+        expect(getCircleIntersectionPoints(circle, { x: 1, y: 0, r: 1 })).toEqual([]);
+        expect(getCircleIntersectionPoints(circle, circle)).toEqual([]);
+
+        expect(isCircleRectIntersection(circle, { x: 3, y: 4, w: 10, h: 10 })).toBe(true);
+        expect(isCircleRectIntersection(circle, { x: 4, y: 4, w: 10, h: 10 })).toBe(false);
+        expect(isCircleRectIntersection(circle, { x: -1, y: -1, w: 2, h: 2 })).toBe(true);
+
+        expect(isCircleLineIntersection(circle, { x1: -1, y1: 1, x2: 1, y2: 1 })).toBe(true);
+        expect(getCircleLineIntersectionPoints(circle, { x1: -1, y1: 1, x2: 1, y2: 1 })).toEqual([]);
+        expect(getCircleLineIntersectionPoints(circle, { x1: 10, y1: 0, x2: -10, y2: 0 })).toEqual([{ x: 5, y: 0 }, { x: -5, y: 0 }]);
+        expect(getCircleLineIntersectionPoints(circle, { x1: -5, y1: 5, x2: 5, y2: 5 })).toEqual([{ x: 0, y: 5 }]);
+    });
+
+    it('should find tangent points', () => {
+        const points = getCircleTangentPoints(circle, { x: 10, y: 0 });
+        expect(points).toHaveLength(2);
+        points.forEach((point) => {
+            expect(distance(point, circle)).toBeCloseTo(5);
+            // az érintési pontban a sugár merőleges az érintőre
+            expect(dot(subtractCoords(point, circle), subtractCoords({ x: 10, y: 0 }, point))).toBeCloseTo(0);
+        });
+        expect(getCircleTangentPoints(circle, { x: 0, y: 5 })).toEqual([{ x: 0, y: 5 }]);
+        expect(getCircleTangentPoints(circle, { x: 1, y: 1 })).toEqual([]);
+    });
+
+    it('should dispatch intersects across shapes', () => {
+        const rect = { x: 0, y: 0, w: 10, h: 10 };
+        const triangle = [{ x: 20, y: 0 }, { x: 30, y: 0 }, { x: 20, y: 10 }];
+        const segment = { x1: 10, y1: 10, x2: 20, y2: 10 };
+        expect(intersects(rect, { x: 15, y: 5, r: 5 })).toBe(true);
+        expect(intersects({ x: 15, y: 5, r: 4 }, rect)).toBe(false);
+        expect(intersects(rect, segment)).toBe(true);
+        expect(intersects(segment, triangle)).toBe(true);
+        expect(intersects(triangle, rect)).toBe(false);
+        expect(intersects([{ x: 22, y: 2 }, { x: 23, y: 2 }, { x: 22, y: 3 }], triangle)).toBe(true);
+        expect(intersects({ x: 24, y: 4, r: 0.5 }, triangle)).toBe(true);
+        expect(intersects({ x: 30, y: 10, r: 1 }, triangle)).toBe(false);
+        expect(intersects(segment, { x1: 15, y1: 0, x2: 15, y2: 20 })).toBe(true);
+        expect(intersects(rect, { x: 10, y: 10, w: 5, h: 5 })).toBe(true);
+        expect(intersects([], rect)).toBe(false);
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Matrix2D, Matrix3D } from '../src/matrix';
+
+const expectCoord = (actual: { x: number, y: number }, x: number, y: number) => {
+    expect(actual.x).toBeCloseTo(x);
+    expect(actual.y).toBeCloseTo(y);
+};
+
+describe('Matrix2D', () => {
+    const identity = Matrix2D.identity();
+
+    it('should compose transformations in CSS order', () => {
+        const matrix = Matrix2D.scale(Matrix2D.translate(identity, 10, 20), 2);
+        expectCoord(Matrix2D.applyToCoord(matrix, { x: 1, y: 1 }), 12, 22);
+        expectCoord(Matrix2D.applyToCoord(Matrix2D.rotate(identity, Math.PI / 2), { x: 1, y: 0 }), 0, 1);
+        expectCoord(Matrix2D.applyToCoord(Matrix2D.rotate(identity, Math.PI, { x: 5, y: 5 }), { x: 0, y: 0 }), 10, 10);
+        expectCoord(Matrix2D.applyToCoord(Matrix2D.scale(identity, 2, 3, { x: 1, y: 1 }), { x: 2, y: 2 }), 3, 4);
+        expectCoord(Matrix2D.applyToCoord(Matrix2D.skew(identity, Math.PI / 4), { x: 0, y: 2 }), 2, 2);
+    });
+
+    it('should invert matrices', () => {
+        const matrix = Matrix2D.skew(Matrix2D.rotate(Matrix2D.translate(identity, 3, -7), 0.7, { x: 2, y: 1 }), 0.2, 0.1);
+        const product = Matrix2D.multiply(matrix, Matrix2D.invert(matrix));
+        Object.entries(identity).forEach(([key, value]) => {
+            expect(product[key as keyof typeof product]).toBeCloseTo(value);
+        });
+        expect(() => Matrix2D.invert(Matrix2D.scale(identity, 0, 1))).toThrow('Matrix is not invertible');
+    });
+
+    it('should transform rects into quads and bounds', () => {
+        const matrix = Matrix2D.rotate(identity, Math.PI / 4, { x: 5, y: 5 });
+        const { quad, bounds } = Matrix2D.applyToRect(matrix, { x: 0, y: 0, w: 10, h: 10 });
+        expectCoord(quad[0], 5, 5 - 5 * Math.SQRT2);
+        expectCoord(quad[2], 5, 5 + 5 * Math.SQRT2);
+        expect(bounds.x).toBeCloseTo(5 - 5 * Math.SQRT2);
+        expect(bounds.w).toBeCloseTo(10 * Math.SQRT2);
+    });
+
+    it('should parse and serialize CSS and SVG transforms', () => {
+        expect(Matrix2D.toString(Matrix2D.parse('translate(10px, 20px) scale(2)'))).toEqual('matrix(2, 0, 0, 2, 10, 20)');
+        expect(Matrix2D.toString(Matrix2D.parse('rotate(90deg)'))).toEqual('matrix(0, 1, -1, 0, 0, 0)');
+        expect(Matrix2D.toString(Matrix2D.parse('rotate(0.25turn)'))).toEqual('matrix(0, 1, -1, 0, 0, 0)');
+        expect(Matrix2D.toString(Matrix2D.parse('rotate(180 5 5)'))).toEqual('matrix(-1, 0, 0, -1, 10, 10)');
+        expect(Matrix2D.parse('matrix(1 0 0 1 5 6) translateX(1px)')).toEqual({ a: 1, b: 0, c: 0, d: 1, e: 6, f: 6 });
+        expect(Matrix2D.parse('none')).toEqual(identity);
+        const matrix = Matrix2D.rotate(Matrix2D.translate(identity, 4, 2), 1.1);
+        const reparsed = Matrix2D.parse(Matrix2D.toString(matrix));
+        Object.entries(matrix).forEach(([key, value]) => {
+            expect(reparsed[key as keyof typeof reparsed]).toBeCloseTo(value);
+        });
+        expect(() => Matrix2D.parse('translate(50%)')).toThrow('Invalid length: 50%');
+        expect(() => Matrix2D.parse('rotate3d(1, 0, 0, 45deg)')).toThrow('Unsupported transform function: rotate3d');
+        expect(() => Matrix2D.parse('scale(2) garbage')).toThrow('Invalid transform: scale(2) garbage');
+    });
+
+    it('should read DOMMatrix-like objects', () => {
+        expect(Matrix2D.fromDOMMatrix({ a: 2, b: 0, c: 0, d: 2, e: 1, f: 1 })).toEqual({ a: 2, b: 0, c: 0, d: 2, e: 1, f: 1 });
+        expect(Matrix2D.fromDOMMatrix({})).toEqual(identity);
+    });
+
+    it('should read 3D computed transforms of elements', () => {
+        expect(Matrix2D.parse('matrix3d(2, 0, 0, 0, 0, 3, 0, 0, 0, 0, 1, 0, 5, 6, 7, 1)')).toEqual({ a: 2, b: 0, c: 0, d: 3, e: 5, f: 6 });
+        expect(() => Matrix2D.parse('matrix3d(1, 0, 0, 1)')).toThrow('Invalid transform: matrix3d(1, 0, 0, 1)');
+        // translateZ(0) rotate(90deg) számított értéke
+        vi.stubGlobal('window', {
+            getComputedStyle: () => ({
+                transform: 'matrix3d(0, 1, 0, 0, -1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1)',
+                transformOrigin: '10px 10px'
+            })
+        });
+        try {
+            expect(Matrix2D.applyToCoord(Matrix2D.fromElement({} as Element), { x: 20, y: 10 })).toEqual({ x: 10, y: 20 });
+        }
+        finally {
+            vi.unstubAllGlobals();
+        }
+    });
+});
+
+describe('Matrix3D', () => {
+    const identity = Matrix3D.identity();
+
+    it('should agree with Matrix2D in the screen plane', () => {
+        const matrix2D = Matrix2D.rotate(Matrix2D.translate(Matrix2D.identity(), 5, 7), 0.3);
+        const matrix3D = Matrix3D.rotateZ(Matrix3D.translate(identity, 5, 7), 0.3);
+        Matrix3D.fromMatrix2D(matrix2D).forEach((value, i) => expect(matrix3D[i]).toBeCloseTo(value));
+        const coord = Matrix3D.applyToCoord(matrix3D, { x: 2, y: 3, z: 4 });
+        expectCoord(coord, Matrix2D.applyToCoord(matrix2D, { x: 2, y: 3 }).x, Matrix2D.applyToCoord(matrix2D, { x: 2, y: 3 }).y);
+        expect(coord.z).toBeCloseTo(4);
+    });
+
+    it('should rotate around the axes like CSS', () => {
+        expect(Matrix3D.toString(Matrix3D.rotateX(identity, Math.PI / 2)))
+            .toEqual('matrix3d(1, 0, 0, 0, 0, 0, 1, 0, 0, -1, 0, 0, 0, 0, 0, 1)');
+        expect(Matrix3D.toString(Matrix3D.rotateY(identity, Math.PI / 2)))
+            .toEqual('matrix3d(0, 0, -1, 0, 0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 0, 1)');
+        const rotated = Matrix3D.applyToCoord(Matrix3D.rotate(identity, { x: 1, y: 1, z: 1 }, 2 * Math.PI / 3), { x: 1, y: 0, z: 0 });
+        expectCoord(rotated, 0, 1);
+        expect(rotated.z).toBeCloseTo(0);
+    });
+
+    it('should project with perspective', () => {
+        const matrix = Matrix3D.perspective(identity, 100);
+        // a néző felé 50 egységgel közelebbi pont kétszeres méretben látszik
+        expectCoord(Matrix3D.project(matrix, { x: 10, y: 20, z: 50 }), 20, 40);
+        expectCoord(Matrix3D.project(matrix, { x: 10, y: 20, z: 0 }), 10, 20);
+        expectCoord(Matrix3D.project(matrix, { x: 110, y: 70, z: 50 }, { x: 100, y: 50 }), 120, 90);
+        expectCoord(Matrix3D.project(Matrix3D.scale(identity, 2), { x: 1, y: 1, z: 1 }), 2, 2);
+        expect(() => Matrix3D.perspective(identity, 0)).toThrow('Perspective distance must be positive');
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Rect, getRectIntersection } from '../src/geometry';
+import { PackingAlgorithm, compact, pack } from '../src/packing';
+
+const expectNoOverlap = function(rects: Rect[]) {
+    rects.forEach((rect1, i) => rects.slice(i + 1).forEach((rect2) => {
+        const intersect = getRectIntersection(rect1, rect2);
+        expect(intersect.w * intersect.h).toEqual(0);
+    }));
+};
+
+describe('pack', () => {
+    const container = { x: 10, y: 20, w: 100, h: 100 };
+    const algorithms: PackingAlgorithm[] = ['maxrects', 'skyline', 'shelf'];
+
+    it('should place items inside the container without overlap', () => {
+        // determinisztikus álvéletlen méretek
+        let seed = 7;
+        const next = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+        const items = Array.from({ length: 40 }, (_v, id) => ({
+            id, x: 0, y: 0, w: 5 + Math.floor(next() * 30), h: 5 + Math.floor(next() * 30)
+        }));
+        algorithms.forEach((algorithm) => {
+            const { packed, unpacked } = pack(items, container, { algorithm });
+            expect(packed.length + unpacked.length).toEqual(items.length);
+            expect(packed.length).toBeGreaterThan(5);
+            expectNoOverlap(packed);
+            packed.forEach((rect) => {
+                expect(rect.x).toBeGreaterThanOrEqual(container.x);
+                expect(rect.y).toBeGreaterThanOrEqual(container.y);
+                expect(rect.x + rect.w).toBeLessThanOrEqual(container.x + container.w);
+                expect(rect.y + rect.h).toBeLessThanOrEqual(container.y + container.h);
+            });
+            expect(packed.map(item => item.id)).toEqual([...packed.map(item => item.id)].sort((a, b) => a - b));
+        });
+    });
+
+    it('should fill the container exactly when possible', () => {
+        const quarters = Array.from({ length: 4 }, () => ({ x: 0, y: 0, w: 50, h: 50 }));
+        algorithms.forEach((algorithm) => {
+            const { packed, unpacked } = pack([...quarters, { x: 0, y: 0, w: 1, h: 1 }], container, { algorithm });
+            expect(packed.map(({ x, y }) => `${x},${y}`).sort()).toEqual(['10,20', '10,70', '60,20', '60,70']);
+            expect(unpacked).toEqual([{ x: 0, y: 0, w: 1, h: 1 }]);
+        });
+    });
+
+    it('should report items larger than the container', () => {
+        expect(pack([{ x: 0, y: 0, w: 101, h: 10 }], container).unpacked).toHaveLength(1);
+        expect(pack([{ x: 0, y: 0, w: 10, h: 101 }], container, { algorithm: 'shelf' }).unpacked).toHaveLength(1);
+    });
+});
+
+describe('compact', () => {
+    it('should float items upwards', () => {
+        const layout = [
+            { id: 'a', x: 0, y: 3, w: 2, h: 2 },
+            { id: 'b', x: 2, y: 5, w: 2, h: 1 },
+            { id: 'c', x: 1, y: 9, w: 2, h: 1 }
+        ];
+        expect(compact(layout).map(({ id, y }) => [id, y])).toEqual([['a', 0], ['b', 0], ['c', 2]]);
+    });
+
+    it('should push colliding items below a pinned item', () => {
+        const layout = [
+            { id: 'a', x: 0, y: 0, w: 2, h: 2 },
+            { id: 'b', x: 0, y: 2, w: 4, h: 1 },
+            { id: 'c', x: 2, y: 0, w: 2, h: 2 }
+        ];
+        const dragged = { ...layout[2], x: 1, y: 0 };
+        const result = compact([layout[0], layout[1], dragged], [dragged]);
+        expect(result.map(({ id, x, y }) => [id, x, y])).toEqual([['a', 0, 2], ['b', 0, 4], ['c', 1, 0]]);
+        expectNoOverlap(result);
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Rect, isPointInsideRectangle, isRectIntersection } from '../src/geometry';
+import { Quadtree } from '../src/quadtree';
+
+// a téglalap-vizsgálatok száma (a futásidővel ellentétben terhelt gépen sem ingadozik)
+const checks = vi.hoisted(() => ({ count: 0 }));
+vi.mock('../src/geometry', async (importOriginal) => {
+    const geometry = await importOriginal<typeof import('../src/geometry')>();
+    return {
+        ...geometry,
+        isRectIntersection: (a: Rect, b: Rect) => {
+            checks.count++;
+            return geometry.isRectIntersection(a, b);
+        }
+    };
+});
+
+// determinisztikus álvéletlen számok (LCG)
+const random = (seed: number) => () => (seed = (seed * 1664525 + 1013904223) % 4294967296) / 4294967296;
+
+const createRects = function(count: number, next: () => number): Rect[] {
+    return Array.from({ length: count }, () => ({
+        x: Math.floor(next() * 1000), y: Math.floor(next() * 1000), w: Math.floor(next() * 30), h: Math.floor(next() * 30)
+    }));
+};
+
+describe('Quadtree', () => {
+    const bounds = { x: 0, y: 0, w: 1000, h: 1000 };
+
+    it('should match the pairwise predicates exactly', () => {
+        const next = random(1);
+        const rects = createRects(2000, next);
+        const tree = Quadtree<number>(bounds, { maxItems: 4 });
+        rects.forEach((rect, i) => tree.insert(i, rect));
+        createRects(200, next).forEach((query) => {
+            const expected = rects.map((_rect, i) => i).filter(i => isRectIntersection(rects[i], query));
+            expect(tree.queryRect(query).sort((a, b) => a - b)).toEqual(expected);
+        });
+        // élre eső pontok
+        [{ x: rects[0].x, y: rects[0].y }, { x: 500.5, y: 500.5 }, { x: 10, y: 20 }].forEach((point) => {
+            const inclusive = rects.map((_rect, i) => i).filter(i => isRectIntersection(rects[i], { ...point, w: 0, h: 0 }));
+            const exclusive = rects.map((_rect, i) => i).filter(i => isPointInsideRectangle(point, rects[i]));
+            expect(tree.queryPoint(point).sort((a, b) => a - b)).toEqual(inclusive);
+            expect(tree.queryPoint(point, true).sort((a, b) => a - b)).toEqual(exclusive);
+        });
+        expect(tree.queryPoint({ x: rects[0].x, y: rects[0].y })).toContain(0);
+    });
+
+    it('should insert, remove and update items', () => {
+        const tree = Quadtree<string>(bounds, { maxItems: 1 });
+        tree.insert('a', { x: 10, y: 10, w: 10, h: 10 });
+        tree.insert('b', { x: 600, y: 600, w: 10, h: 10 });
+        tree.insert('c', { x: 1200, y: -50, w: 10, h: 10 });
+        expect(tree.size()).toEqual(3);
+        expect(tree.queryRect({ x: 1100, y: -100, w: 200, h: 100 })).toEqual(['c']);
+        tree.update('a', { x: 610, y: 610, w: 5, h: 5 });
+        expect(tree.queryRect({ x: 0, y: 0, w: 100, h: 100 })).toEqual([]);
+        expect(tree.queryPoint({ x: 610, y: 610 }).sort()).toEqual(['a', 'b']);
+        expect(tree.remove('b')).toBe(true);
+        expect(tree.remove('b')).toBe(false);
+        expect(tree.queryPoint({ x: 612, y: 612 })).toEqual(['a']);
+        tree.clear();
+        expect(tree.size()).toEqual(0);
+    });
+
+    it('should find the k nearest items', () => {
+        const next = random(2);
+        const rects = createRects(1000, next);
+        const tree = Quadtree<number>(bounds);
+        rects.forEach((rect, i) => tree.insert(i, rect));
+        const point = { x: 333, y: 777 };
+        const distance = (rect: Rect) => Math.hypot(
+            Math.max(rect.x - point.x, 0, point.x - rect.x - rect.w), Math.max(rect.y - point.y, 0, point.y - rect.y - rect.h)
+        );
+        const expected = rects.map((rect, i) => ({ i, d: distance(rect) })).sort((a, b) => a.d - b.d).slice(0, 5);
+        expect(tree.nearest(point, 5).map(i => distance(rects[i]))).toEqual(expected.map(({ d }) => d));
+        expect(tree.nearest(point, 0)).toEqual([]);
+    });
+
+    it('should check far fewer rects than pairwise queries', () => {
+        const next = random(3);
+        const rects = createRects(5000, next);
+        const queries = createRects(1000, next);
+        const tree = Quadtree<number>(bounds);
+        rects.forEach((rect, i) => tree.insert(i, rect));
+
+        checks.count = 0;
+        const pairwise = queries.map(query => rects.filter(rect => isRectIntersection(rect, query)).length);
+        expect(checks.count).toEqual(rects.length * queries.length);
+
+        checks.count = 0;
+        const indexed = queries.map(query => tree.queryRect(query).length);
+        expect(indexed).toEqual(pairwise);
+        expect(checks.count).toBeLessThan(rects.length * queries.length / 10);
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Region } from '../src/region';
+
+describe('Region', () => {
+    const a = { x: 0, y: 0, w: 10, h: 10 };
+    const b = { x: 5, y: 5, w: 10, h: 10 };
+
+    it('should normalize unions into non-overlapping bands', () => {
+        expect(Region.from([a, b])).toEqual([
+            { x: 0, y: 0, w: 10, h: 5 },
+            { x: 0, y: 5, w: 15, h: 5 },
+            { x: 5, y: 10, w: 10, h: 5 }
+        ]);
+        // a felosztás független a bemenet sorrendjétől és darabolásától
+        const halves = [{ x: 0, y: 0, w: 5, h: 10 }, { x: 5, y: 0, w: 5, h: 10 }];
+        expect(Region.from(halves)).toEqual([a]);
+        expect(Region.union([b], [a])).toEqual(Region.from([a, b]));
+        expect(Region.from([a, { x: 20, y: 0, w: 0, h: 10 }])).toEqual([a]);
+    });
+
+    it('should subtract and intersect regions', () => {
+        expect(Region.subtract([a], [b])).toEqual([{ x: 0, y: 0, w: 10, h: 5 }, { x: 0, y: 5, w: 5, h: 5 }]);
+        expect(Region.subtract([a], [{ x: 2, y: 2, w: 2, h: 2 }])).toHaveLength(4);
+        expect(Region.subtract([a], [{ x: -5, y: -5, w: 20, h: 20 }])).toEqual([]);
+        expect(Region.intersect([a], [b])).toEqual([{ x: 5, y: 5, w: 5, h: 5 }]);
+        expect(Region.intersect([a], [{ x: 10, y: 0, w: 5, h: 5 }])).toEqual([]);
+    });
+
+    it('should answer area and containment queries', () => {
+        expect(Region.getArea([a, b])).toEqual(175);
+        expect(Region.getBounds([a, b])).toEqual({ x: 0, y: 0, w: 15, h: 15 });
+        expect(Region.getBounds([])).toEqual({ x: 0, y: 0, w: 0, h: 0 });
+        const halves = [{ x: 0, y: 0, w: 5, h: 10 }, { x: 5, y: 0, w: 5, h: 10 }];
+        expect(Region.containsPoint(halves, { x: 5, y: 5 })).toBe(true);
+        expect(Region.containsPoint(halves, { x: 10, y: 5 })).toBe(false);
+        expect(Region.containsRect(halves, { x: 2, y: 2, w: 6, h: 6 })).toBe(true);
+        expect(Region.containsRect(halves, { x: 2, y: 2, w: 10, h: 6 })).toBe(false);
+        expect(Region.intersectsRect(halves, { x: 10, y: 0, w: 5, h: 5 })).toBe(false);
+    });
+
+    it('should find free space', () => {
+        const container = { x: 0, y: 0, w: 30, h: 20 };
+        const used = [a, { x: 10, y: 0, w: 10, h: 5 }];
+        expect(Region.getArea(Region.getFreeSpace(used, container))).toEqual(600 - 150);
+        expect(Region.findFreeRect(used, container, 10, 10)).toEqual({ x: 20, y: 0, w: 10, h: 10 });
+        expect(Region.findFreeRect(used, container, 15, 10)).toEqual({ x: 10, y: 5, w: 15, h: 10 });
+        expect(Region.findFreeRect(used, container, 30, 15)).toBeNull();
+        expect(Region.findFreeRect([], container, 30, 20)).toEqual(container);
+    });
+});
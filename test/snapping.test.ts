@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Direction } from '../src/geometry';
+import { snapRect } from '../src/snapping';
+
+describe('snapRect', () => {
+    const targets = [{ x: 0, y: 0, w: 100, h: 50 }, { x: 300, y: 200, w: 50, h: 50 }];
+
+    it('should snap edges to the nearest target and report guides', () => {
+        const { rect, guides, touching } = snapRect({ x: 103, y: 2, w: 40, h: 40 }, { targets });
+        expect(rect).toEqual({ x: 100, y: 0, w: 40, h: 40 });
+        expect(guides).toEqual([
+            { orientation: 'vertical', position: 100, type: 'edge', from: 0, to: 50 },
+            { orientation: 'horizontal', position: 0, type: 'edge', from: 0, to: 140 }
+        ]);
+        expect(touching).toEqual([{ c1: 0, c2: 40, dir: Direction.Left, target: targets[0] }]);
+    });
+
+    it('should align centers', () => {
+        const { rect, guides } = snapRect({ x: 304, y: 100, w: 40, h: 20 }, { targets });
+        expect(rect.x).toEqual(305);
+        expect(guides).toContainEqual({ orientation: 'vertical', position: 325, type: 'center', from: 100, to: 250 });
+    });
+
+    it('should fall back to grid and guide lines', () => {
+        expect(snapRect({ x: 517, y: 611, w: 30, h: 30 }, { targets, grid: 10 }).rect).toEqual({ x: 520, y: 610, w: 30, h: 30 });
+        const { rect, guides } = snapRect({ x: 517, y: 611, w: 30, h: 30 }, { grid: 10, guides: { vertical: [518] } });
+        expect(rect.x).toEqual(518);
+        expect(guides).toEqual([{ orientation: 'vertical', position: 518, type: 'guide', from: 610, to: 640 }]);
+        expect(snapRect({ x: 520, y: 620, w: 30, h: 30 }, { targets }).rect).toEqual({ x: 520, y: 620, w: 30, h: 30 });
+    });
+
+    it('should snap only the moving edges while resizing', () => {
+        const { rect, touching } = snapRect({ x: 200, y: 210, w: 97, h: 37 }, { targets, edges: [Direction.Right, Direction.Bottom] });
+        expect(rect).toEqual({ x: 200, y: 210, w: 100, h: 40 });
+        expect(touching).toEqual([{ c1: 210, c2: 250, dir: Direction.Right, target: targets[1] }]);
+        expect(snapRect({ x: 98, y: 300, w: 50, h: 10 }, { targets, edges: [Direction.Left] }).rect)
+            .toEqual({ x: 100, y: 300, w: 48, h: 10 });
+    });
+});